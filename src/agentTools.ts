@@ -0,0 +1,328 @@
+import * as vscode from "vscode";
+import type { EndpointProfile, LlmProvider } from "./config";
+import type { ChatMessage, StreamResult, ToolCall, ToolDefinition } from "./llm";
+import { findSymbolAtPosition } from "./symbolResolver";
+import { isIgnored } from "./ignoreResolver";
+
+/** Location a tool result showed the model; answers may link to it. */
+type ToolLocation = { path: string; line: number; endLine?: number };
+
+/** One tool step, for the webview status line and the allowed-link set. */
+export type ToolStep = {
+  type: "tool";
+  name: string;
+  summary: string;
+  locations: ToolLocation[];
+};
+
+/** Backends that advertise `tools` and accept `tool` and `tool_calls` messages. */
+const TOOL_PROVIDERS: readonly LlmProvider[] = ["openai", "openai-responses", "azure"];
+
+const MAX_RESULT_CHARS = 8000;
+const MAX_RANGE_LINES = 200;
+const MAX_REFERENCES = 20;
+
+const AGENT_TOOLS: ToolDefinition[] = [
+  {
+    type: "function",
+    function: {
+      name: "read_definition",
+      description:
+        "Return the source code of a symbol's definition (function, class, type, etc.) found by name in the workspace.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Exact symbol name, e.g. parseConfig or UserService." },
+        },
+        required: ["name"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "read_file_range",
+      description:
+        "Return lines start..end (1-based, inclusive) of a workspace file. At most 200 lines per call.",
+      parameters: {
+        type: "object",
+        properties: {
+          path: { type: "string", description: "Workspace-relative path, e.g. src/config.ts." },
+          start: { type: "integer", minimum: 1 },
+          end: { type: "integer", minimum: 1 },
+        },
+        required: ["path", "start", "end"],
+      },
+    },
+  },
+  {
+    type: "function",
+    function: {
+      name: "find_references",
+      description:
+        "List where a symbol is used in the workspace, as path:line with the line's text. At most 20 results.",
+      parameters: {
+        type: "object",
+        properties: {
+          name: { type: "string", description: "Exact symbol name." },
+        },
+        required: ["name"],
+      },
+    },
+  },
+];
+
+type ToolOutcome = { content: string; summary: string; locations: ToolLocation[] };
+
+function capped(text: string): string {
+  return text.length > MAX_RESULT_CHARS
+    ? text.slice(0, MAX_RESULT_CHARS) + "\n... (truncated)"
+    : text;
+}
+
+/** Workspace folders, with the one containing `origin` first. */
+function foldersFrom(origin?: vscode.Uri): readonly vscode.WorkspaceFolder[] {
+  const folders = vscode.workspace.workspaceFolders ?? [];
+  const home = origin && vscode.workspace.getWorkspaceFolder(origin);
+  return home ? [home, ...folders.filter((f) => f.index !== home.index)] : folders;
+}
+
+/**
+ * Best workspace symbol for `name` outside ignored files: exact match first,
+ * and within each group those in the folder containing `origin`.
+ */
+async function findWorkspaceSymbol(
+  name: string,
+  origin?: vscode.Uri
+): Promise<vscode.SymbolInformation | undefined> {
+  const symbols =
+    (await vscode.commands.executeCommand<vscode.SymbolInformation[]>(
+      "vscode.executeWorkspaceSymbolProvider",
+      name
+    )) ?? [];
+  const home = origin && vscode.workspace.getWorkspaceFolder(origin);
+  const inHome = (s: vscode.SymbolInformation) =>
+    home !== undefined && vscode.workspace.getWorkspaceFolder(s.location.uri)?.index === home.index;
+  const byFolder = (group: vscode.SymbolInformation[]) => [
+    ...group.filter(inHome),
+    ...group.filter((s) => !inHome(s)),
+  ];
+  const ranked = [
+    ...byFolder(symbols.filter((s) => s.name === name)),
+    ...byFolder(symbols.filter((s) => s.name !== name && s.name.endsWith(name))),
+  ];
+  for (const s of ranked) {
+    if (!(await isIgnored(s.location.uri))) return s;
+  }
+  return undefined;
+}
+
+async function readDefinition(name: string, origin?: vscode.Uri): Promise<ToolOutcome> {
+  const sym = await findWorkspaceSymbol(name, origin);
+  if (!sym) {
+    return { content: `No definition found for "${name}".`, summary: `${name} (not found)`, locations: [] };
+  }
+  const doc = await vscode.workspace.openTextDocument(sym.location.uri);
+  const info = await findSymbolAtPosition(doc, sym.location.range.start, {
+    includeDefinition: false,
+    includeReferences: false,
+  });
+  const range = info?.range ?? sym.location.range;
+  const path = vscode.workspace.asRelativePath(doc.uri);
+  const line = range.start.line + 1;
+  const endLine = Math.min(range.end.line + 1, line + MAX_RANGE_LINES - 1);
+  const source = doc.getText(
+    new vscode.Range(range.start.line, 0, endLine - 1, doc.lineAt(endLine - 1).range.end.character)
+  );
+  return {
+    content: capped(`${path}:${line}-${endLine}\n\`\`\`${doc.languageId}\n${source}\n\`\`\``),
+    summary: `${name} → ${path}:${line}`,
+    locations: [{ path, line, endLine }],
+  };
+}
+
+/**
+ * Resolves a workspace-relative path, refusing anything outside a folder or ignored.
+ * Multi-root paths as `asRelativePath` prints them (`folder/rest`) resolve in
+ * that folder; other paths are tried in the folder containing `origin` first.
+ */
+async function resolveWorkspacePath(relPath: string, origin?: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const folders = foldersFrom(origin);
+  const candidates: [vscode.WorkspaceFolder, string][] = [];
+  const [head, ...rest] = relPath.replace(/^\.?[\\/]+/, "").split(/[\\/]/);
+  const named = folders.length > 1 && rest.length > 0 ? folders.find((f) => f.name === head) : undefined;
+  if (named) candidates.push([named, rest.join("/")]);
+  for (const folder of folders) candidates.push([folder, relPath]);
+
+  for (const [folder, path] of candidates) {
+    const uri = vscode.Uri.joinPath(folder.uri, path);
+    if (vscode.workspace.getWorkspaceFolder(uri)?.uri.toString() !== folder.uri.toString()) continue;
+    try {
+      await vscode.workspace.fs.stat(uri);
+    } catch {
+      continue;
+    }
+    return (await isIgnored(uri)) ? undefined : uri;
+  }
+  return undefined;
+}
+
+async function readFileRange(
+  relPath: string,
+  start: number,
+  end: number,
+  origin?: vscode.Uri
+): Promise<ToolOutcome> {
+  const uri = await resolveWorkspacePath(relPath, origin);
+  if (!uri) {
+    return { content: `File not available: ${relPath}`, summary: `${relPath} (unavailable)`, locations: [] };
+  }
+  const doc = await vscode.workspace.openTextDocument(uri);
+  const first = Math.max(1, Math.min(start, doc.lineCount));
+  const last = Math.max(first, Math.min(end, doc.lineCount, first + MAX_RANGE_LINES - 1));
+  const text = doc.getText(
+    new vscode.Range(first - 1, 0, last - 1, doc.lineAt(last - 1).range.end.character)
+  );
+  const path = vscode.workspace.asRelativePath(uri);
+  return {
+    content: capped(`${path}:${first}-${last}\n\`\`\`${doc.languageId}\n${text}\n\`\`\``),
+    summary: `${path}:${first}-${last}`,
+    locations: [{ path, line: first, endLine: last }],
+  };
+}
+
+async function findReferences(name: string, origin?: vscode.Uri): Promise<ToolOutcome> {
+  const sym = await findWorkspaceSymbol(name, origin);
+  if (!sym) {
+    return { content: `Symbol "${name}" not found.`, summary: `${name} (not found)`, locations: [] };
+  }
+  const refs =
+    (await vscode.commands.executeCommand<vscode.Location[]>(
+      "vscode.executeReferenceProvider",
+      sym.location.uri,
+      sym.location.range.start
+    )) ?? [];
+  const lines: string[] = [];
+  const locations: ToolLocation[] = [];
+  for (const loc of refs) {
+    if (lines.length >= MAX_REFERENCES) break;
+    if (await isIgnored(loc.uri)) continue;
+    try {
+      const doc = await vscode.workspace.openTextDocument(loc.uri);
+      const path = vscode.workspace.asRelativePath(loc.uri);
+      const line = loc.range.start.line + 1;
+      lines.push(`${path}:${line}: ${doc.lineAt(loc.range.start.line).text.trim()}`);
+      locations.push({ path, line });
+    } catch {
+      // ignore unreadable reference files
+    }
+  }
+  return {
+    content: lines.length > 0 ? capped(lines.join("\n")) : `No references found for "${name}".`,
+    summary: `${name} (${lines.length} refs)`,
+    locations,
+  };
+}
+
+async function runTool(call: ToolCall, origin?: vscode.Uri): Promise<ToolOutcome> {
+  let args: Record<string, unknown>;
+  try {
+    args = JSON.parse(call.function.arguments || "{}") as Record<string, unknown>;
+  } catch {
+    return { content: "Invalid JSON arguments.", summary: "invalid arguments", locations: [] };
+  }
+  try {
+    switch (call.function.name) {
+      case "read_definition":
+        return await readDefinition(String(args.name ?? ""), origin);
+      case "read_file_range":
+        return await readFileRange(
+          String(args.path ?? ""),
+          Number(args.start) || 1,
+          Number(args.end) || Number(args.start) || 1,
+          origin
+        );
+      case "find_references":
+        return await findReferences(String(args.name ?? ""), origin);
+      default:
+        return { content: `Unknown tool: ${call.function.name}`, summary: "unknown tool", locations: [] };
+    }
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    return { content: `Tool failed: ${msg}`, summary: "failed", locations: [] };
+  }
+}
+
+/**
+ * True when every profile in the failover chain supports tools. Every round may
+ * fail over, so one profile without them would get a conversation it rejects.
+ */
+export function supportsTools(endpoints: EndpointProfile[]): boolean {
+  return endpoints.every((ep) => TOOL_PROVIDERS.includes(ep.provider));
+}
+
+/**
+ * Runs the agent loop: streams a round with `AGENT_TOOLS` advertised; when the
+ * model answers with `toolCalls`, runs them, appends the assistant turn and the
+ * tool results to the conversation, and streams the next round. The last of
+ * `maxRounds` rounds is sent without tools so the model has to answer.
+ * Yields a `tool` step for every call. The text and `done` of tool rounds are
+ * swallowed, so only the final round's text reaches the caller.
+ * `origin` is the explained document; tools look in its workspace folder first.
+ */
+export async function* streamWithTools(
+  run: (messages: ChatMessage[], tools: ToolDefinition[] | undefined) => AsyncGenerator<StreamResult>,
+  messages: ChatMessage[],
+  maxRounds: number,
+  signal?: AbortSignal,
+  origin?: vscode.Uri
+): AsyncGenerator<StreamResult | ToolStep> {
+  const conversation = [...messages];
+  for (let round = 1; round <= maxRounds; round++) {
+    const tools = round < maxRounds ? AGENT_TOOLS : undefined;
+    let content = "";
+    let calls: ToolCall[] | undefined;
+    // Text of a round that may end in tool calls is held back until it is known to be the answer.
+    const held: StreamResult[] = [];
+
+    for await (const result of run(conversation, tools)) {
+      if (result.type === "toolCalls") {
+        calls = result.calls;
+        continue;
+      }
+      if (result.type === "done" && calls) break;
+      if (result.type === "chunk") {
+        content += result.content;
+        if (tools) {
+          held.push(result);
+          continue;
+        }
+      }
+      if (result.type === "done" || result.type === "error") {
+        yield* held;
+        yield result;
+        return;
+      }
+      yield result;
+    }
+
+    if (!calls) {
+      yield* held;
+      return;
+    }
+    if (signal?.aborted) return;
+
+    conversation.push({ role: "assistant", content, tool_calls: calls });
+    for (const call of calls) {
+      if (signal?.aborted) return;
+      const outcome = await runTool(call, origin);
+      yield {
+        type: "tool",
+        name: call.function.name,
+        summary: outcome.summary,
+        locations: outcome.locations,
+      };
+      conversation.push({ role: "tool", tool_call_id: call.id, content: outcome.content });
+    }
+  }
+}
@@ -0,0 +1,187 @@
+import type { ChatMessage, StreamOpenAIChatOpts, StreamResult } from "./llm";
+import {
+  createRequestSignal,
+  httpErrorResult,
+  readLines,
+  toErrorResult,
+} from "./httpStream";
+import { authHeaders, httpFetch } from "./httpClient";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+/** The Messages API requires max_tokens; used when the caller does not set one. */
+const DEFAULT_MAX_TOKENS = 1024;
+
+type AnthropicUsage = { input_tokens?: number; output_tokens?: number };
+
+type AnthropicEvent = {
+  type?: string;
+  message?: { usage?: AnthropicUsage };
+  usage?: AnthropicUsage;
+  delta?: { type?: string; text?: string; thinking?: string; stop_reason?: string };
+  error?: { type?: string; message?: string };
+};
+
+/**
+ * Streams a reply from the Anthropic Messages API (`/v1/messages`).
+ * baseUrl must not include /messages (e.g. https://api.anthropic.com/v1).
+ * System messages are joined into the top-level `system` field; the rest are sent
+ * as `messages`. Text arrives in `content_block_delta` events and the stream ends
+ * on `message_stop`, preceded by a `usage` result built from the token counts in
+ * `message_start` and `message_delta`. Yields the same `StreamResult` union as
+ * `streamOpenAIChat`.
+ */
+export async function* streamAnthropicChat(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  opts?: StreamOpenAIChatOpts
+): AsyncGenerator<StreamResult> {
+  const timeoutMs = opts?.timeoutMs ?? 0;
+  const log = opts?.log ?? (() => {});
+
+  const url = baseUrl.replace(/\/$/, "") + "/messages";
+
+  const system = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  const turns = messages
+    .filter((m) => m.role !== "system")
+    .map((m) => ({ role: m.role, content: m.content }));
+
+  const { signal: mergedSignal, clear: clearTimer } = createRequestSignal(
+    signal,
+    timeoutMs
+  );
+
+  log("anthropic fetch start");
+  let res: Response;
+  try {
+    res = await httpFetch(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(apiKey, opts?.authScheme ?? "x-api-key"),
+          "anthropic-version": ANTHROPIC_VERSION,
+          ...opts?.headers,
+        },
+        body: JSON.stringify({
+          model,
+          ...(system.length > 0 && { system }),
+          messages: turns,
+          max_tokens: opts?.maxTokens ?? DEFAULT_MAX_TOKENS,
+          stream: true,
+          ...(opts?.temperature != null && { temperature: opts.temperature }),
+        }),
+        signal: mergedSignal,
+      },
+      opts?.http
+    );
+  } catch (e) {
+    clearTimer();
+    log(`anthropic fetch error: ${e instanceof Error ? e.message : String(e)}`);
+    yield toErrorResult(e, "Network error", true);
+    return;
+  }
+
+  log(`anthropic fetch ok status=${res.status}`);
+
+  if (!res.ok) {
+    clearTimer();
+    yield await httpErrorResult(res);
+    return;
+  }
+
+  if (!res.body) {
+    clearTimer();
+    yield { type: "error", message: "Response body is empty" };
+    return;
+  }
+
+  let yieldCount = 0;
+  let loggedParseErr = false;
+  let stopReason: string | undefined;
+  let inputTokens: number | undefined;
+  let outputTokens: number | undefined;
+
+  try {
+    for await (const raw of readLines(res.body, mergedSignal)) {
+      const line = raw.trim();
+      if (!line.startsWith("data:")) continue;
+
+      const json = line.slice(5).trim();
+      let event: AnthropicEvent;
+      try {
+        event = JSON.parse(json) as AnthropicEvent;
+      } catch (e) {
+        if (!loggedParseErr) {
+          loggedParseErr = true;
+          log(`anthropic parse err: ${e instanceof Error ? e.message : String(e)} json=${json.slice(0, 120)}...`);
+        }
+        continue;
+      }
+
+      switch (event.type) {
+        case "message_start":
+          inputTokens = event.message?.usage?.input_tokens ?? inputTokens;
+          outputTokens = event.message?.usage?.output_tokens ?? outputTokens;
+          break;
+        case "content_block_delta":
+          if (event.delta?.type === "text_delta" && typeof event.delta.text === "string") {
+            yieldCount++;
+            if (yieldCount <= 3) log(`anthropic yield #${yieldCount} len=${event.delta.text.length}`);
+            yield { type: "chunk", content: event.delta.text };
+          } else if (event.delta?.type === "thinking_delta" && typeof event.delta.thinking === "string") {
+            yield { type: "reasoning", content: event.delta.thinking };
+          }
+          break;
+        case "message_delta":
+          if (event.delta?.stop_reason) {
+            stopReason = event.delta.stop_reason;
+            log(`anthropic stop_reason=${stopReason}`);
+          }
+          outputTokens = event.usage?.output_tokens ?? outputTokens;
+          break;
+        case "message_stop":
+          clearTimer();
+          if (inputTokens != null || outputTokens != null) {
+            yield {
+              type: "usage",
+              promptTokens: inputTokens ?? 0,
+              completionTokens: outputTokens ?? 0,
+            };
+          }
+          yield {
+            type: "done",
+            ...(stopReason && {
+              finishReason: stopReason === "max_tokens" ? "length" : stopReason,
+            }),
+          };
+          return;
+        case "error":
+          clearTimer();
+          yield {
+            type: "error",
+            message: `API error: ${event.error?.message ?? event.error?.type ?? "unknown"}`,
+          };
+          return;
+      }
+    }
+
+    clearTimer();
+    if (mergedSignal?.aborted) {
+      yield { type: "error", message: "Request aborted.", aborted: true };
+      return;
+    }
+    log(`anthropic body ended without message_stop yieldCount=${yieldCount}`);
+    yield { type: "done" };
+  } catch (e) {
+    clearTimer();
+    log(`anthropic stream catch: ${e instanceof Error ? e.message : String(e)}`);
+    yield toErrorResult(e, "Streaming error");
+  }
+}
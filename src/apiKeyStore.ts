@@ -0,0 +1,302 @@
+import * as vscode from "vscode";
+
+const SECRET_PREFIX = "symfocus.apiKey";
+/** Set once keys were moved or the user declined; the offer is not repeated. */
+const MIGRATED_KEY = "symfocus.apiKeyMigrated";
+/** Activation waits this long for SecretStorage; a slow keyring finishes loading in the background. */
+const LOAD_TIMEOUT_MS = 3000;
+
+/**
+ * SecretStorage is async but `getSymfocusConfig` is not, so keys are loaded at
+ * activation and kept current through `secrets.onDidChange`.
+ */
+const cache = new Map<string, string>();
+
+/** Identifies the open workspace, for keys moved out of its settings. */
+function workspaceId(): string | undefined {
+  return (vscode.workspace.workspaceFile ?? vscode.workspace.workspaceFolders?.[0]?.uri)?.toString();
+}
+
+/** Secret name for `profile`; with `workspace`, a key that applies to that workspace only. */
+function secretKey(profile?: string, workspace?: string): string {
+  const base = workspace ? `${SECRET_PREFIX}.workspace.${workspace}` : SECRET_PREFIX;
+  return profile ? `${base}.profile.${profile}` : base;
+}
+
+/** The workspace-scoped secret name when this workspace has one for `profile`, else the global one. */
+function activeSecretKey(profile?: string): string {
+  const workspace = workspaceId();
+  const scoped = workspace && secretKey(profile, workspace);
+  return scoped && cache.has(scoped) ? scoped : secretKey(profile);
+}
+
+/**
+ * Key stored with **Set API Key** or moved from settings; `profile` omitted for
+ * the flat `symfocus.openai.*` endpoint. A key moved from this workspace's
+ * settings takes precedence over the user-wide one.
+ */
+export function getStoredApiKey(profile?: string): string | undefined {
+  return cache.get(activeSecretKey(profile));
+}
+
+/**
+ * Stores `value` in SecretStorage, or removes the stored key when it is empty.
+ * Replaces this workspace's own key when it has one, otherwise the user-wide key.
+ */
+export async function storeApiKey(
+  secrets: vscode.SecretStorage,
+  value: string,
+  profile?: string
+): Promise<void> {
+  const key = activeSecretKey(profile);
+  if (value.trim()) {
+    await secrets.store(key, value.trim());
+    cache.set(key, value.trim());
+  } else {
+    await secrets.delete(key);
+    cache.delete(key);
+  }
+}
+
+type RawProfile = Record<string, unknown> & { name?: unknown; apiKey?: unknown };
+
+function profileNames(): string[] {
+  const raw = vscode.workspace.getConfiguration().get<RawProfile[]>("symfocus.profiles") ?? [];
+  return raw
+    .map((p) => (typeof p?.name === "string" ? p.name.trim() : ""))
+    .filter((n) => n.length > 0);
+}
+
+/** Reads one secret into the cache. Keyring errors are logged and leave the setting value in use. */
+async function load(
+  secrets: vscode.SecretStorage,
+  key: string,
+  log: (msg: string) => void
+): Promise<void> {
+  try {
+    const value = await secrets.get(key);
+    if (value) cache.set(key, value);
+    else cache.delete(key);
+  } catch (e) {
+    log(`Secret storage unavailable for ${key}: ${e instanceof Error ? e.message : String(e)}`);
+  }
+}
+
+async function loadAll(secrets: vscode.SecretStorage, log: (msg: string) => void): Promise<void> {
+  const workspace = workspaceId();
+  const profiles = [undefined, ...profileNames()];
+  const keys = profiles.flatMap((n) => [secretKey(n), ...(workspace ? [secretKey(n, workspace)] : [])]);
+  await Promise.all(keys.map((k) => load(secrets, k, log)));
+}
+
+function hasKey(p: RawProfile): boolean {
+  return typeof p?.apiKey === "string" && p.apiKey.trim().length > 0;
+}
+
+/** Settings scopes (user, workspace, any workspace folder) that hold a plaintext key. */
+function plaintextScopes(): { global: boolean; workspace: boolean; folder: boolean } {
+  const config = vscode.workspace.getConfiguration();
+  const flat = config.inspect<string>("symfocus.openai.apiKey");
+  const profiles = config.inspect<RawProfile[]>("symfocus.profiles");
+  const folder = (vscode.workspace.workspaceFolders ?? []).some((f) => {
+    const scoped = vscode.workspace.getConfiguration(undefined, f.uri);
+    return (
+      !!scoped.inspect<string>("symfocus.openai.apiKey")?.workspaceFolderValue?.trim() ||
+      !!scoped.inspect<RawProfile[]>("symfocus.profiles")?.workspaceFolderValue?.some(hasKey)
+    );
+  });
+  return {
+    global: !!flat?.globalValue?.trim() || !!profiles?.globalValue?.some(hasKey),
+    workspace: !!flat?.workspaceValue?.trim() || !!profiles?.workspaceValue?.some(hasKey),
+    folder,
+  };
+}
+
+/**
+ * Moves plaintext keys from user and workspace settings into SecretStorage and
+ * clears them there: `symfocus.openai.apiKey` and each profile's `apiKey`. User
+ * keys become the user-wide secrets; workspace keys are stored for this
+ * workspace only, so they never replace the user-wide ones. Keys are stored
+ * before any setting is cleared. Folder settings are left alone. Returns how
+ * many keys moved.
+ */
+async function migrateApiKeys(context: vscode.ExtensionContext): Promise<number> {
+  const config = vscode.workspace.getConfiguration();
+  const flat = config.inspect<string>("symfocus.openai.apiKey");
+  const profiles = config.inspect<RawProfile[]>("symfocus.profiles");
+  const workspace = workspaceId();
+  const scopes = [
+    { target: vscode.ConfigurationTarget.Global, key: flat?.globalValue, list: profiles?.globalValue },
+    ...(workspace
+      ? [{ target: vscode.ConfigurationTarget.Workspace, key: flat?.workspaceValue, list: profiles?.workspaceValue }]
+      : []),
+  ];
+
+  const found = new Map<string, string>();
+  for (const scope of scopes) {
+    const ws = scope.target === vscode.ConfigurationTarget.Workspace ? workspace : undefined;
+    if (scope.key?.trim()) found.set(secretKey(undefined, ws), scope.key.trim());
+    for (const p of scope.list ?? []) {
+      if (hasKey(p) && typeof p.name === "string" && p.name.trim()) {
+        found.set(secretKey(p.name.trim(), ws), (p.apiKey as string).trim());
+      }
+    }
+  }
+  for (const [key, value] of found) {
+    await context.secrets.store(key, value);
+    cache.set(key, value);
+  }
+
+  for (const scope of scopes) {
+    if (scope.key?.trim()) {
+      await config.update("symfocus.openai.apiKey", undefined, scope.target);
+    }
+    if (scope.list?.some(hasKey)) {
+      await config.update(
+        "symfocus.profiles",
+        scope.list.map((p) =>
+          hasKey(p) ? Object.fromEntries(Object.entries(p).filter(([k]) => k !== "apiKey")) : p
+        ),
+        scope.target
+      );
+    }
+  }
+  return found.size;
+}
+
+let warnedWorkspaceKey = false;
+/** Set while migrating, so the settings writes do not trigger the warning. */
+let migrating = false;
+
+async function runMigration(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): Promise<void> {
+  migrating = true;
+  try {
+    const n = await migrateApiKeys(context);
+    await context.globalState.update(MIGRATED_KEY, true);
+    log(`Moved ${n} API key(s) to secret storage`);
+    const folderNote = plaintextScopes().folder
+      ? " Keys in workspace folder settings were left in place; remove them and use Set API Key."
+      : "";
+    void vscode.window.showInformationMessage(
+      (n > 0
+        ? `Symfocus: Moved ${n} API key${n === 1 ? "" : "s"} from settings to secure storage.`
+        : "Symfocus: No API keys found in user or workspace settings.") + folderNote
+    );
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    log(`API key migration failed: ${msg}`);
+    void vscode.window.showErrorMessage(`Symfocus: Could not move API keys: ${msg}`);
+  } finally {
+    migrating = false;
+  }
+}
+
+/** `.vscode/settings.json` is often committed; warn once per session when it holds a key. */
+function warnWorkspaceKey(context: vscode.ExtensionContext, log: (msg: string) => void): void {
+  if (warnedWorkspaceKey || migrating) return;
+  const scopes = plaintextScopes();
+  if (!scopes.workspace && !scopes.folder) return;
+  warnedWorkspaceKey = true;
+  void vscode.window
+    .showWarningMessage(
+      "Symfocus: An API key is set in workspace or folder settings (.vscode/settings.json), which may be committed or shared.",
+      "Move to Secure Storage"
+    )
+    .then((action) => {
+      if (action === "Move to Secure Storage") void runMigration(context, log);
+    });
+}
+
+/** Asks once before moving plaintext keys; "Not Now" asks again next session. */
+async function offerMigration(context: vscode.ExtensionContext, log: (msg: string) => void): Promise<void> {
+  warnedWorkspaceKey = true;
+  const action = await vscode.window.showInformationMessage(
+    "Symfocus: API keys are stored in plaintext settings. Move them to VS Code's secure storage?",
+    "Move Keys",
+    "Not Now",
+    "Don't Ask Again"
+  );
+  if (action === "Move Keys") await runMigration(context, log);
+  else if (action === "Don't Ask Again") await context.globalState.update(MIGRATED_KEY, true);
+}
+
+async function setApiKey(context: vscode.ExtensionContext): Promise<void> {
+  const names = profileNames();
+  let profile: string | undefined;
+  if (names.length > 0) {
+    const picked = await vscode.window.showQuickPick(
+      names.map((n) => ({
+        label: n,
+        description: getStoredApiKey(n) ? "key stored" : undefined,
+      })),
+      { placeHolder: "Set the API key for which profile?" }
+    );
+    if (!picked) return;
+    profile = picked.label;
+  }
+
+  const value = await vscode.window.showInputBox({
+    title: profile ? `Symfocus: API key for "${profile}"` : "Symfocus: API key",
+    prompt: "Stored in VS Code's secure storage, not in settings. Leave empty to remove the stored key.",
+    password: true,
+    ignoreFocusOut: true,
+  });
+  if (value === undefined) return;
+
+  try {
+    await storeApiKey(context.secrets, value, profile);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    void vscode.window.showErrorMessage(`Symfocus: Could not use secure storage: ${msg}`);
+    return;
+  }
+  void vscode.window.showInformationMessage(
+    value.trim() ? "Symfocus: API key saved." : "Symfocus: Stored API key removed."
+  );
+}
+
+/**
+ * Loads stored keys, registers **Set API Key** and **Move API Keys to Secure
+ * Storage**, and offers to move plaintext keys until the user moves or declines
+ * them. Never waits more than LOAD_TIMEOUT_MS for SecretStorage, and keyring
+ * failures leave the settings' keys in use.
+ */
+export async function initApiKeyStore(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): Promise<void> {
+  let timer: NodeJS.Timeout | undefined;
+  const timedOut = await Promise.race([
+    loadAll(context.secrets, log).then(() => false),
+    new Promise<boolean>((resolve) => (timer = setTimeout(() => resolve(true), LOAD_TIMEOUT_MS))),
+  ]);
+  clearTimeout(timer);
+  if (timedOut) log("Secret storage is slow to respond; stored keys load in the background");
+
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.setApiKey", () => setApiKey(context)),
+    vscode.commands.registerCommand("symfocus.migrateApiKeys", () => runMigration(context, log)),
+    context.secrets.onDidChange((e) => {
+      if (e.key.startsWith(SECRET_PREFIX)) void load(context.secrets, e.key, log);
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("symfocus.profiles")) void loadAll(context.secrets, log);
+      if (
+        e.affectsConfiguration("symfocus.profiles") ||
+        e.affectsConfiguration("symfocus.openai.apiKey")
+      ) {
+        warnWorkspaceKey(context, log);
+      }
+    })
+  );
+
+  const scopes = plaintextScopes();
+  if (!context.globalState.get<boolean>(MIGRATED_KEY) && (scopes.global || scopes.workspace)) {
+    void offerMigration(context, log);
+  } else {
+    warnWorkspaceKey(context, log);
+  }
+}
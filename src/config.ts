@@ -1,12 +1,71 @@
 import * as vscode from "vscode";
+import { getStoredApiKey } from "./apiKeyStore";
 
 export type ExplanationMode = "quick" | "standard" | "deep";
 export type ExperienceLevel = "junior" | "senior";
+export type LlmProvider = "openai" | "openai-responses" | "anthropic" | "ollama" | "azure";
+/** How the API key is sent: `Authorization: Bearer`, `api-key`, `x-api-key`, or not at all. */
+export type AuthScheme = "bearer" | "api-key" | "x-api-key" | "none";
+
+/** VS Code's `http.*` proxy settings plus our CA bundle, applied to every LLM request. */
+export type HttpSettings = {
+  /** `http.proxy`; empty falls back to HTTPS_PROXY / HTTP_PROXY. */
+  proxy: string;
+  noProxy: string[];
+  proxyStrictSSL: boolean;
+  /** PEM file added to the trusted roots (`symfocus.http.caBundlePath`). */
+  caBundlePath: string;
+};
+
+export type OllamaSettings = {
+  /** Context window (`options.num_ctx`); 0 leaves the model default. */
+  numCtx: number;
+  /** How long the model stays loaded (`keep_alive`), e.g. "5m" or "-1". Empty for server default. */
+  keepAlive: string;
+  /** Extra `options` passed verbatim (e.g. top_k, repeat_penalty, num_gpu). */
+  options: Record<string, unknown>;
+};
+
+/** Azure OpenAI deployment; the resource URL is the profile's `baseUrl`. */
+export type AzureSettings = {
+  deployment: string;
+  /** `api-version` query parameter, e.g. "2024-10-21". */
+  apiVersion: string;
+};
+
+/**
+ * One named endpoint. Entries of `symfocus.profiles`, or the implicit "default"
+ * profile built from the flat `symfocus.provider` / `symfocus.openai.*` settings.
+ */
+export type EndpointProfile = {
+  name: string;
+  provider: LlmProvider;
+  baseUrl: string;
+  apiKey: string;
+  model: string;
+  /** Extra request headers, merged over the provider's defaults. Values may use `${apiKey}`, `${model}`, `${env:NAME}`. */
+  headers: Record<string, string>;
+  /** Unset uses the provider's native scheme. */
+  authScheme?: AuthScheme;
+  /** Set when `provider` is "azure". */
+  azure?: AzureSettings;
+  /** 0 means no timeout. */
+  timeoutMs: number;
+  /** Overrides the mode-based max tokens when set. */
+  maxTokens?: number;
+};
 
 export type SymfocusConfig = {
+  provider: LlmProvider;
   baseUrl: string;
   apiKey: string;
   model: string;
+  headers: Record<string, string>;
+  authScheme?: AuthScheme;
+  azure: AzureSettings;
+  http: HttpSettings;
+  /** Check the model against the endpoint's model list before explaining. */
+  validateModel: boolean;
   includeDetail: boolean;
   includeDefinition: boolean;
   includeReferences: boolean;
@@ -14,16 +73,110 @@ export type SymfocusConfig = {
   explanationMode: ExplanationMode;
   experienceLevel: ExperienceLevel;
   projectContext: string;
+  showReasoning: boolean;
+  /** Use `.symfocus/prompts/*.md` templates; false restores the built-in prompts. */
+  useWorkspaceTemplates: boolean;
+  ollama: OllamaSettings;
+  retryMaxAttempts: number;
+  /** Opt-in tool calling: the model may request definitions, file ranges and references. */
+  agent: { enabled: boolean; maxRounds: number };
+  /** Generate Documentation: parallel requests and which files a folder run includes. */
+  docs: { concurrency: number; include: string; exclude: string };
+  /** Follow mode: quick explanations of the symbol under a resting cursor. */
+  follow: { enabled: boolean; dwellMs: number };
+  profiles: EndpointProfile[];
+  activeProfile: string;
+  /** Profile names tried in order after the active one fails. */
+  failoverChain: string[];
 };
 
-export function getSymfocusConfig(): SymfocusConfig {
-  const cfg = vscode.workspace.getConfiguration();
+const PROVIDERS: LlmProvider[] = ["openai", "openai-responses", "anthropic", "ollama", "azure"];
+const DEFAULT_AZURE_API_VERSION = "2024-10-21";
+const DEFAULT_DOCS_INCLUDE = "**/*.{ts,tsx,js,jsx,mjs,cjs,py,go,rs,java,kt,cs,rb,php,swift,c,h,cpp,hpp}";
+
+function parseProvider(raw: unknown, fallback: LlmProvider): LlmProvider {
+  return typeof raw === "string" && (PROVIDERS as string[]).includes(raw)
+    ? (raw as LlmProvider)
+    : fallback;
+}
+
+const AUTH_SCHEMES: AuthScheme[] = ["bearer", "api-key", "x-api-key", "none"];
+
+function parseAuthScheme(raw: unknown): AuthScheme | undefined {
+  return typeof raw === "string" && (AUTH_SCHEMES as string[]).includes(raw)
+    ? (raw as AuthScheme)
+    : undefined;
+}
+
+function parseHeaders(raw: unknown): Record<string, string> {
+  if (!raw || typeof raw !== "object") return {};
+  const out: Record<string, string> = {};
+  for (const [k, v] of Object.entries(raw as Record<string, unknown>)) {
+    if (typeof v === "string") out[k] = v;
+  }
+  return out;
+}
+
+function parseProfiles(raw: unknown, defaultProvider: LlmProvider): EndpointProfile[] {
+  if (!Array.isArray(raw)) return [];
+  const profiles: EndpointProfile[] = [];
+  for (const p of raw as Array<Record<string, unknown>>) {
+    if (!p || typeof p.name !== "string" || !p.name.trim()) continue;
+    const authScheme = parseAuthScheme(p.authScheme);
+    const provider = parseProvider(p.provider, defaultProvider);
+    profiles.push({
+      name: p.name.trim(),
+      provider,
+      baseUrl: typeof p.baseUrl === "string" ? p.baseUrl : "",
+      apiKey: getStoredApiKey(p.name.trim()) ?? (typeof p.apiKey === "string" ? p.apiKey : ""),
+      model: typeof p.model === "string" ? p.model : "",
+      headers: parseHeaders(p.headers),
+      ...(authScheme && { authScheme }),
+      ...(provider === "azure" && {
+        azure: {
+          deployment: typeof p.deployment === "string" ? p.deployment : "",
+          apiVersion:
+            typeof p.apiVersion === "string" && p.apiVersion.trim()
+              ? p.apiVersion
+              : DEFAULT_AZURE_API_VERSION,
+        },
+      }),
+      timeoutMs: typeof p.timeoutMs === "number" && p.timeoutMs > 0 ? p.timeoutMs : 0,
+      ...(typeof p.maxTokens === "number" && p.maxTokens > 0 && { maxTokens: p.maxTokens }),
+    });
+  }
+  return profiles;
+}
+
+/**
+ * Reads all settings. With a `scope` (usually the document being explained),
+ * `[language]` sections and workspace-folder settings override the mode,
+ * experience level, project context, model and active profile.
+ */
+export function getSymfocusConfig(scope?: vscode.ConfigurationScope): SymfocusConfig {
+  const cfg = vscode.workspace.getConfiguration(undefined, scope);
   const modeRaw = cfg.get<string>("symfocus.explanation.mode") ?? "standard";
   const levelRaw = cfg.get<string>("symfocus.explanation.experienceLevel") ?? "senior";
+  const provider = parseProvider(cfg.get<string>("symfocus.provider"), "openai");
   return {
+    provider,
     baseUrl: cfg.get<string>("symfocus.openai.baseUrl") ?? "",
-    apiKey: cfg.get<string>("symfocus.openai.apiKey") ?? "",
+    apiKey: getStoredApiKey() ?? cfg.get<string>("symfocus.openai.apiKey") ?? "",
     model: cfg.get<string>("symfocus.openai.model") ?? "",
+    headers: parseHeaders(cfg.get("symfocus.openai.headers")),
+    authScheme: parseAuthScheme(cfg.get<string>("symfocus.openai.authScheme")),
+    azure: {
+      deployment: cfg.get<string>("symfocus.azure.deployment") ?? "",
+      apiVersion:
+        cfg.get<string>("symfocus.azure.apiVersion")?.trim() || DEFAULT_AZURE_API_VERSION,
+    },
+    http: {
+      proxy: (cfg.get<string>("http.proxy") ?? "").trim(),
+      noProxy: cfg.get<string[]>("http.noProxy") ?? [],
+      proxyStrictSSL: cfg.get<boolean>("http.proxyStrictSSL") ?? true,
+      caBundlePath: (cfg.get<string>("symfocus.http.caBundlePath") ?? "").trim(),
+    },
+    validateModel: cfg.get<boolean>("symfocus.validateModel") ?? false,
     includeDetail: cfg.get<boolean>("symfocus.context.includeDetail") ?? true,
     includeDefinition: cfg.get<boolean>("symfocus.context.includeDefinition") ?? true,
     includeReferences: cfg.get<boolean>("symfocus.context.includeReferences") ?? false,
@@ -31,23 +184,181 @@ export function getSymfocusConfig(): SymfocusConfig {
     explanationMode: (["quick", "standard", "deep"].includes(modeRaw) ? modeRaw : "standard") as ExplanationMode,
     experienceLevel: (["junior", "senior"].includes(levelRaw) ? levelRaw : "senior") as ExperienceLevel,
     projectContext: cfg.get<string>("symfocus.explanation.projectContext") ?? "",
+    showReasoning: cfg.get<boolean>("symfocus.explanation.showReasoning") ?? true,
+    useWorkspaceTemplates: cfg.get<boolean>("symfocus.prompts.useWorkspaceTemplates") ?? true,
+    ollama: {
+      numCtx: cfg.get<number>("symfocus.ollama.numCtx") ?? 0,
+      keepAlive: cfg.get<string>("symfocus.ollama.keepAlive") ?? "",
+      options: cfg.get<Record<string, unknown>>("symfocus.ollama.options") ?? {},
+    },
+    retryMaxAttempts: cfg.get<number>("symfocus.retry.maxAttempts") ?? 3,
+    agent: {
+      enabled: cfg.get<boolean>("symfocus.agent.enabled") ?? false,
+      maxRounds: Math.max(1, cfg.get<number>("symfocus.agent.maxRounds") ?? 4),
+    },
+    docs: {
+      concurrency: Math.min(8, Math.max(1, cfg.get<number>("symfocus.docs.concurrency") ?? 2)),
+      include: cfg.get<string>("symfocus.docs.include")?.trim() || DEFAULT_DOCS_INCLUDE,
+      exclude: cfg.get<string>("symfocus.docs.exclude")?.trim() ?? "",
+    },
+    follow: {
+      enabled: cfg.get<boolean>("symfocus.follow.enabled") ?? false,
+      dwellMs: Math.max(200, cfg.get<number>("symfocus.follow.dwellMs") ?? 1000),
+    },
+    profiles: parseProfiles(cfg.get<unknown[]>("symfocus.profiles"), provider),
+    activeProfile: cfg.get<string>("symfocus.activeProfile") ?? "",
+    failoverChain: (cfg.get<string[]>("symfocus.failover") ?? []).filter(
+      (n) => typeof n === "string" && n.trim().length > 0
+    ),
+  };
+}
+
+/** Settings declared language-overridable (and so folder-scoped) in package.json. */
+const SCOPED_SETTINGS = [
+  "symfocus.explanation.mode",
+  "symfocus.explanation.experienceLevel",
+  "symfocus.explanation.projectContext",
+  "symfocus.openai.model",
+  "symfocus.activeProfile",
+];
+
+/**
+ * Lists the scoped settings that a `[language]` section or the document's
+ * workspace folder overrides for `doc`, e.g. `mode: deep ([rust] user settings)`.
+ */
+export function describeOverrides(doc: vscode.TextDocument): string[] {
+  const cfg = vscode.workspace.getConfiguration(undefined, doc);
+  const lang = `[${doc.languageId}]`;
+  const out: string[] = [];
+  for (const key of SCOPED_SETTINGS) {
+    const i = cfg.inspect(key);
+    if (!i) continue;
+    const source =
+      i.workspaceFolderLanguageValue !== undefined
+        ? `${lang} folder settings`
+        : i.workspaceLanguageValue !== undefined
+          ? `${lang} workspace settings`
+          : i.globalLanguageValue !== undefined
+            ? `${lang} user settings`
+            : i.workspaceFolderValue !== undefined
+              ? "folder settings"
+              : undefined;
+    if (source) {
+      const value = String(cfg.get(key) ?? "");
+      out.push(`${key.split(".").pop()}: ${value.length > 40 ? value.slice(0, 40) + "…" : value} (${source})`);
+    }
+  }
+  return out;
+}
+
+/** Writes to the scope that already sets `key`, so a workspace override is not shadowed. */
+export function targetFor(key: string): vscode.ConfigurationTarget {
+  const inspected = vscode.workspace.getConfiguration().inspect(key);
+  if (inspected?.workspaceFolderValue !== undefined) {
+    return vscode.ConfigurationTarget.WorkspaceFolder;
+  }
+  if (inspected?.workspaceValue !== undefined) {
+    return vscode.ConfigurationTarget.Workspace;
+  }
+  return vscode.ConfigurationTarget.Global;
+}
+
+/**
+ * Returns the endpoints to try, in order: the active profile (or the first one
+ * when `activeProfile` is empty or unknown), then each `symfocus.failover` profile.
+ * Without any profiles, the flat settings form a single "default" profile.
+ */
+export function getEndpointChain(c: SymfocusConfig): EndpointProfile[] {
+  if (c.profiles.length === 0) {
+    return [
+      {
+        name: "default",
+        provider: c.provider,
+        baseUrl: c.baseUrl,
+        apiKey: c.apiKey,
+        model: c.model,
+        headers: c.headers,
+        ...(c.authScheme && { authScheme: c.authScheme }),
+        ...(c.provider === "azure" && { azure: c.azure }),
+        timeoutMs: 0,
+      },
+    ];
+  }
+  const primary =
+    c.profiles.find((p) => p.name === c.activeProfile) ?? c.profiles[0];
+  const chain = [primary];
+  for (const name of c.failoverChain) {
+    const p = c.profiles.find((x) => x.name === name);
+    if (p && !chain.includes(p)) chain.push(p);
+  }
+  return chain;
+}
+
+function missingFields(p: EndpointProfile): string[] {
+  const missing: string[] = [];
+  if (p.provider === "azure") {
+    if (!p.baseUrl?.trim()) missing.push("Azure resource URL (base URL)");
+    if (!p.azure?.deployment.trim()) missing.push("Azure deployment");
+    if (!p.azure?.apiVersion.trim()) missing.push("Azure API version");
+    if (!p.apiKey?.trim()) missing.push("API key");
+    return missing;
+  }
+  if (!p.baseUrl?.trim()) missing.push("Endpoint (base URL)");
+  if (!p.apiKey?.trim() && p.provider !== "ollama") missing.push("API key");
+  if (!p.model?.trim()) missing.push("Model");
+  return missing;
+}
+
+/** Trims fields; an Azure profile without a model is labeled by its deployment. */
+function trimProfile(p: EndpointProfile): EndpointProfile {
+  const azure = p.azure && {
+    deployment: p.azure.deployment.trim(),
+    apiVersion: p.azure.apiVersion.trim(),
+  };
+  return {
+    ...p,
+    baseUrl: p.baseUrl.trim(),
+    apiKey: p.apiKey.trim(),
+    model: p.model.trim() || azure?.deployment || "",
+    ...(azure && { azure }),
   };
 }
 
 export type ValidateApiResult =
-  | { ok: true; baseUrl: string; apiKey: string; model: string }
+  | { ok: true; endpoints: EndpointProfile[]; warnings: string[] }
   | { ok: false; missing: string[] };
 
-export function validateApiConfig(c: SymfocusConfig): ValidateApiResult {
-  const missing: string[] = [];
-  if (!c.baseUrl?.trim()) missing.push("Endpoint (base URL)");
-  if (!c.apiKey?.trim()) missing.push("API key");
-  if (!c.model?.trim()) missing.push("Model");
-  if (missing.length > 0) return { ok: false, missing };
+/**
+ * Validates the primary endpoint; missing fields are reported by name (prefixed
+ * with the profile name when profiles are in use). Incomplete failover profiles
+ * are dropped from `endpoints` rather than failing validation. With
+ * `listedModels` (the endpoint's model list), a model missing from it is a warning.
+ */
+export function validateApiConfig(
+  c: SymfocusConfig,
+  listedModels?: string[]
+): ValidateApiResult {
+  const [primary, ...failover] = getEndpointChain(c);
+  const missing = missingFields(primary);
+  if (missing.length > 0) {
+    return {
+      ok: false,
+      missing:
+        c.profiles.length > 0
+          ? missing.map((m) => `${m} (profile "${primary.name}")`)
+          : missing,
+    };
+  }
+  const endpoints = [primary, ...failover.filter((p) => missingFields(p).length === 0)].map(
+    trimProfile
+  );
+  const model = endpoints[0].model;
   return {
     ok: true,
-    baseUrl: c.baseUrl.trim(),
-    apiKey: c.apiKey.trim(),
-    model: c.model.trim(),
+    endpoints,
+    warnings:
+      listedModels && listedModels.length > 0 && !listedModels.includes(model)
+        ? [`Model "${model}" is not in the model list of ${endpoints[0].baseUrl}.`]
+        : [],
   };
 }
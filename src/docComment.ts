@@ -0,0 +1,338 @@
+import * as vscode from "vscode";
+import { getSymfocusConfig, validateApiConfig } from "./config";
+import { detectProjectContext } from "./contextDetector";
+import { generateDocComment, type GeneratedDocComment } from "./explainCommand";
+
+/**
+ * How a language writes doc comments. `block` is `/** ... *\/` above the symbol,
+ * `line` is a run of `prefix` lines above it, `docstring` is a Python docstring
+ * as the first statement of the body.
+ */
+type DocCommentStyle = {
+  /** Sent to the model as the convention to follow. */
+  convention: string;
+  syntax: "block" | "line" | "docstring";
+  prefix?: string;
+};
+
+const STYLES: Record<string, DocCommentStyle> = {
+  typescript: {
+    convention: "JSDoc block comment (/** ... */) with @param, @returns and @throws tags where they apply. No {types} in tags; TypeScript has them.",
+    syntax: "block",
+  },
+  javascript: {
+    convention: "JSDoc block comment (/** ... */) with @param {Type}, @returns {Type} and @throws tags where they apply.",
+    syntax: "block",
+  },
+  java: {
+    convention: "Javadoc block comment (/** ... */) with @param, @return and @throws tags where they apply.",
+    syntax: "block",
+  },
+  kotlin: {
+    convention: "KDoc block comment (/** ... */) with @param, @return and @throws tags where they apply.",
+    syntax: "block",
+  },
+  php: {
+    convention: "PHPDoc block comment (/** ... */) with @param, @return and @throws tags where they apply.",
+    syntax: "block",
+  },
+  c: {
+    convention: "Doxygen block comment (/** ... */) with @brief, @param and @return where they apply.",
+    syntax: "block",
+  },
+  csharp: {
+    convention: "XML documentation comment in /// lines with <summary>, <param>, <returns> and <exception> where they apply.",
+    syntax: "line",
+    prefix: "///",
+  },
+  rust: {
+    convention: "Rust doc comment in /// lines, Markdown, with # Errors, # Panics and # Examples sections where they apply.",
+    syntax: "line",
+    prefix: "///",
+  },
+  swift: {
+    convention: "Swift documentation comment in /// lines with - Parameter, - Returns and - Throws where they apply.",
+    syntax: "line",
+    prefix: "///",
+  },
+  go: {
+    convention: "Go doc comment in // lines. The first sentence starts with the symbol's name. Plain sentences, no tags.",
+    syntax: "line",
+    prefix: "//",
+  },
+  ruby: {
+    convention: "YARD comment in # lines with @param, @return and @raise tags where they apply.",
+    syntax: "line",
+    prefix: "#",
+  },
+  lua: {
+    convention: "LuaCATS annotation comment in --- lines with @param and @return where they apply.",
+    syntax: "line",
+    prefix: "---",
+  },
+  python: {
+    convention: 'PEP 257 docstring in triple double quotes ("""), Google style, with Args, Returns and Raises sections where they apply.',
+    syntax: "docstring",
+  },
+};
+
+const LANGUAGE_ALIASES: Record<string, string> = {
+  typescriptreact: "typescript",
+  javascriptreact: "javascript",
+  cpp: "c",
+  "objective-c": "c",
+  "objective-cpp": "c",
+};
+
+export function styleFor(languageId: string): DocCommentStyle | undefined {
+  return STYLES[LANGUAGE_ALIASES[languageId] ?? languageId];
+}
+
+const DOCSTRING_OPEN = /^[rRuU]?("""|''')/;
+
+/**
+ * Pulls the comment out of the model's reply (the first fenced block, or the whole
+ * reply) and dedents it. Undefined when it is not a comment in `style`.
+ */
+export function extractComment(reply: string, style: DocCommentStyle): string[] | undefined {
+  const fenced = reply.match(/```[^\n]*\n([\s\S]*?)```/);
+  const lines = (fenced ? fenced[1] : reply).replace(/\r/g, "").split("\n");
+  while (lines.length > 0 && !lines[0].trim()) lines.shift();
+  while (lines.length > 0 && !lines[lines.length - 1].trim()) lines.pop();
+  if (lines.length === 0) return undefined;
+
+  const indent = Math.min(
+    ...lines.filter((l) => l.trim()).map((l) => l.length - l.trimStart().length)
+  );
+  const dedented = lines.map((l) => l.slice(indent).trimEnd());
+
+  if (style.syntax === "block") {
+    const start = dedented.findIndex((l) => l.startsWith("/**"));
+    const end = dedented.findIndex((l, i) => i >= start && l.endsWith("*/"));
+    return start >= 0 && end >= 0 ? dedented.slice(start, end + 1) : undefined;
+  }
+  if (style.syntax === "line") {
+    const start = dedented.findIndex((l) => l.startsWith(style.prefix!));
+    if (start < 0) return undefined;
+    const end = dedented.findIndex((l, i) => i > start && !l.startsWith(style.prefix!));
+    return dedented.slice(start, end < 0 ? undefined : end);
+  }
+  const open = dedented[0].match(DOCSTRING_OPEN);
+  if (!open) return undefined;
+  const close = dedented.findIndex((l, i) =>
+    i === 0 ? l.slice(open[0].length).includes(open[1]) : l.includes(open[1])
+  );
+  return close >= 0 ? dedented.slice(0, close + 1) : undefined;
+}
+
+/** First line after the doc comment starting at `line`, or undefined when none starts there. */
+function commentEndBelow(doc: vscode.TextDocument, line: number, style: DocCommentStyle): number | undefined {
+  const text = (l: number) => doc.lineAt(l).text.trim();
+  if (style.syntax === "block") {
+    if (!text(line).startsWith("/**")) return undefined;
+    for (let l = line; l < doc.lineCount; l++) if (text(l).endsWith("*/")) return l + 1;
+    return undefined;
+  }
+  let l = line;
+  while (l < doc.lineCount && text(l).startsWith(style.prefix!)) l++;
+  return l > line ? l : undefined;
+}
+
+/** First line of the doc comment ending right above `line`, or undefined. */
+function commentStartAbove(doc: vscode.TextDocument, line: number, style: DocCommentStyle): number | undefined {
+  const text = (l: number) => doc.lineAt(l).text.trim();
+  if (line === 0) return undefined;
+  if (style.syntax === "block") {
+    if (!text(line - 1).endsWith("*/")) return undefined;
+    for (let l = line - 1; l >= 0; l--) {
+      if (text(l).startsWith("/**")) return l;
+      if (text(l).startsWith("/*")) return undefined;
+    }
+    return undefined;
+  }
+  let l = line - 1;
+  while (l >= 0 && text(l).startsWith(style.prefix!)) l--;
+  return l < line - 1 ? l + 1 : undefined;
+}
+
+function indentOf(doc: vscode.TextDocument, line: number): string {
+  const text = doc.lineAt(line).text;
+  return text.slice(0, text.length - text.trimStart().length);
+}
+
+/**
+ * Where the comment goes: above the symbol (replacing an adjacent doc comment,
+ * including one the symbol's range starts with), or for Python as the first
+ * statement of the body (replacing an existing docstring).
+ */
+export function placement(
+  doc: vscode.TextDocument,
+  symbolRange: vscode.Range,
+  style: DocCommentStyle
+): { range: vscode.Range; indent: string } {
+  const start = symbolRange.start.line;
+  if (style.syntax !== "docstring") {
+    const inRange = commentEndBelow(doc, start, style);
+    const from = inRange != null ? start : commentStartAbove(doc, start, style) ?? start;
+    const to = inRange ?? start;
+    return { range: new vscode.Range(from, 0, to, 0), indent: indentOf(doc, to) };
+  }
+
+  let header = start;
+  while (header < symbolRange.end.line && doc.lineAt(header).text.trim().startsWith("@")) header++;
+  let colon = header;
+  while (colon <= symbolRange.end.line && !doc.lineAt(colon).text.replace(/#.*$/, "").trimEnd().endsWith(":")) {
+    colon++;
+  }
+  if (colon >= symbolRange.end.line) {
+    throw new Error("Cannot add a docstring to a one-line definition.");
+  }
+  const last = symbolRange.end.line;
+  let body = colon + 1;
+  while (body < last && !doc.lineAt(body).text.trim()) body++;
+  const indent = indentOf(doc, body) || `${indentOf(doc, header)}    `;
+  const first = doc.lineAt(body).text.trim();
+  const open = first.match(DOCSTRING_OPEN);
+  if (!open) return { range: new vscode.Range(colon + 1, 0, colon + 1, 0), indent };
+  let end = body;
+  if (!first.slice(open[0].length).includes(open[1])) {
+    do end++;
+    while (end < last && !doc.lineAt(end).text.includes(open[1]));
+  }
+  return { range: new vscode.Range(body, 0, end + 1, 0), indent };
+}
+
+/** Opens the generated comment as a `WorkspaceEdit` that needs confirmation, so it shows in the refactor preview first. */
+async function previewEdit(
+  doc: vscode.TextDocument,
+  result: GeneratedDocComment,
+  style: DocCommentStyle
+): Promise<void> {
+  const lines = extractComment(result.text, style);
+  if (!lines) throw new Error("The model did not return a doc comment in the expected format.");
+  const { range, indent } = placement(doc, result.symbol.range, style);
+  const eol = doc.eol === vscode.EndOfLine.CRLF ? "\r\n" : "\n";
+  const text = lines.map((l) => (l ? indent + l : "")).join(eol) + eol;
+
+  const edit = new vscode.WorkspaceEdit();
+  edit.replace(doc.uri, range, text, {
+    needsConfirmation: true,
+    label: `Doc comment for ${result.symbol.name}`,
+    description: result.model,
+  });
+  await vscode.workspace.applyEdit(edit);
+}
+
+/**
+ * **Symfocus: Generate Doc Comment**: asks the model for a doc comment for the
+ * symbol at `position` and previews it as an edit. The file must not change while
+ * the request runs.
+ */
+async function insertDocComment(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void,
+  uri?: vscode.Uri,
+  position?: vscode.Position
+): Promise<void> {
+  const editor = vscode.window.activeTextEditor;
+  const doc = uri ? await vscode.workspace.openTextDocument(uri) : editor?.document;
+  const pos = position ?? editor?.selection.active;
+  if (!doc || !pos) return;
+
+  const style = styleFor(doc.languageId);
+  if (!style) {
+    void vscode.window.showInformationMessage(
+      `Symfocus: Doc comments are not supported for ${doc.languageId}.`
+    );
+    return;
+  }
+  const cfg = getSymfocusConfig(doc);
+  const api = validateApiConfig(cfg);
+  if (!api.ok) {
+    const action = await vscode.window.showErrorMessage(
+      `Symfocus: Set in Settings: ${api.missing.join(", ")}.`,
+      "Configure"
+    );
+    if (action === "Configure") void vscode.commands.executeCommand("symfocus.configure");
+    return;
+  }
+
+  const version = doc.version;
+  let cancelled = false;
+  try {
+    const result = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Symfocus: Writing doc comment…",
+        cancellable: true,
+      },
+      async (_progress, token) => {
+        const abort = new AbortController();
+        token.onCancellationRequested(() => {
+          cancelled = true;
+          abort.abort();
+        });
+        const projectContext =
+          cfg.projectContext.trim() || (await detectProjectContext().catch(() => undefined));
+        return generateDocComment(context, doc, pos, style.convention, {
+          cfg,
+          endpoints: api.endpoints,
+          projectContext,
+          signal: abort.signal,
+          log,
+        });
+      }
+    );
+    if (cancelled) return;
+    if (!result) {
+      void vscode.window.showInformationMessage("Symfocus: No symbol found at the cursor.");
+      return;
+    }
+    if (doc.version !== version) {
+      void vscode.window.showWarningMessage(
+        "Symfocus: The file changed while the doc comment was generated. Run the command again."
+      );
+      return;
+    }
+    if (result.truncated) log("Doc comment: reply hit the token limit");
+    await previewEdit(doc, result, style);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    log(`Doc comment failed: ${msg}`);
+    void vscode.window.showErrorMessage(`Symfocus: ${msg}`);
+  }
+}
+
+/** Registers **Generate Doc Comment** and offers it as a refactoring on any word in a supported language. */
+export function registerDocCommentCommand(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): void {
+  const kind = vscode.CodeActionKind.RefactorRewrite.append("symfocus.docComment");
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.insertDocComment", (uri?: unknown, position?: unknown) =>
+      insertDocComment(
+        context,
+        log,
+        uri instanceof vscode.Uri ? uri : undefined,
+        position instanceof vscode.Position ? position : undefined
+      )
+    ),
+    vscode.languages.registerCodeActionsProvider(
+      [{ scheme: "file" }, { scheme: "untitled" }],
+      {
+        provideCodeActions(doc, range) {
+          if (!styleFor(doc.languageId) || !doc.getWordRangeAtPosition(range.start)) return [];
+          const action = new vscode.CodeAction("Symfocus: Generate Doc Comment", kind);
+          action.command = {
+            command: "symfocus.insertDocComment",
+            title: "Symfocus: Generate Doc Comment",
+            arguments: [doc.uri, range.start],
+          };
+          return [action];
+        },
+      },
+      { providedCodeActionKinds: [kind] }
+    )
+  );
+}
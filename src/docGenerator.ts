@@ -0,0 +1,405 @@
+import * as path from "path";
+import * as vscode from "vscode";
+import { getSymfocusConfig, validateApiConfig } from "./config";
+import { detectProjectContext } from "./contextDetector";
+import { generateExplanation, type GeneratedExplanation } from "./explainCommand";
+import { isIgnored } from "./ignoreResolver";
+import { rewriteFileLinks } from "./markdown";
+import { getDocumentOutline, type OutlineSymbol } from "./symbolResolver";
+
+const DOC_KINDS = new Set(["function", "class", "interface"]);
+const INDEX_FILE = "index.md";
+/** Output folder, relative to the workspace folder, offered first. */
+const DEFAULT_OUTPUT = ["docs", "api"];
+
+type DocItem = {
+  doc: vscode.TextDocument;
+  symbol: OutlineSymbol;
+  result?: GeneratedExplanation;
+};
+
+/** One source file and its documented symbols. `docPath` is relative to the output folder. */
+type Module = {
+  source: vscode.Uri;
+  /** Workspace-relative path with forward slashes, as used in explanation links. */
+  relativePath: string;
+  docPath: string;
+  items: DocItem[];
+};
+
+/**
+ * Whether a top-level declaration is visible outside its module, by language
+ * convention. Unknown languages count everything as exported.
+ */
+function isExported(symbol: OutlineSymbol, languageId: string): boolean {
+  const decl = symbol.declaration;
+  switch (languageId) {
+    case "typescript":
+    case "typescriptreact":
+    case "javascript":
+    case "javascriptreact":
+      return /^export\b/.test(decl) || /^(?:module\.)?exports\./.test(decl);
+    case "python":
+      return !symbol.name.startsWith("_");
+    case "go":
+      return /^[A-Z]/.test(symbol.name);
+    case "rust":
+      return /^pub\b/.test(decl);
+    case "java":
+    case "csharp":
+      return /\bpublic\b/.test(decl);
+    case "kotlin":
+    case "swift":
+      return !/\b(?:private|internal|fileprivate)\b/.test(decl);
+    case "c":
+    case "cpp":
+      return !/^static\b/.test(decl);
+    default:
+      return !/^(?:private|static)\b/.test(decl);
+  }
+}
+
+function workspaceRelative(uri: vscode.Uri): string {
+  const folder = vscode.workspace.getWorkspaceFolder(uri);
+  const rel = folder ? path.relative(folder.uri.fsPath, uri.fsPath) : path.basename(uri.fsPath);
+  return rel.replace(/\\/g, "/");
+}
+
+/** Relative href from the doc at `fromDocPath` (in the output folder) to `toFsPath`. */
+function hrefTo(outDir: vscode.Uri, fromDocPath: string, toFsPath: string): string {
+  const fromDir = path.dirname(path.join(outDir.fsPath, fromDocPath));
+  return path
+    .relative(fromDir, toFsPath)
+    .replace(/\\/g, "/")
+    .split("/")
+    .map(encodeURIComponent)
+    .join("/");
+}
+
+async function collectFiles(target: vscode.Uri, include: string, exclude: string): Promise<vscode.Uri[]> {
+  const stat = await vscode.workspace.fs.stat(target);
+  if (stat.type !== vscode.FileType.Directory) return [target];
+  const found = await vscode.workspace.findFiles(
+    new vscode.RelativePattern(target, include),
+    exclude ? new vscode.RelativePattern(target, exclude) : undefined
+  );
+  const ignored = await Promise.all(found.map((uri) => isIgnored(uri)));
+  return found
+    .filter((_, i) => !ignored[i])
+    .sort((a, b) => a.fsPath.localeCompare(b.fsPath));
+}
+
+/** Exported functions, classes and interfaces of each file; files with none are dropped. */
+async function collectModules(files: vscode.Uri[], log: (msg: string) => void): Promise<Module[]> {
+  const modules: Module[] = [];
+  for (const source of files) {
+    let doc: vscode.TextDocument;
+    try {
+      doc = await vscode.workspace.openTextDocument(source);
+    } catch (e) {
+      log(`Docs: cannot open ${source.fsPath}: ${e}`);
+      continue;
+    }
+    const symbols = (await getDocumentOutline(doc, 0)).filter(
+      (s) => DOC_KINDS.has(s.kind) && isExported(s, doc.languageId)
+    );
+    if (symbols.length === 0) continue;
+    const relativePath = workspaceRelative(source);
+    modules.push({
+      source,
+      relativePath,
+      docPath: `${relativePath}.md`,
+      items: symbols.map((symbol) => ({ doc, symbol })),
+    });
+  }
+  return modules;
+}
+
+function anchorFor(symbol: OutlineSymbol): string {
+  return `L${symbol.startLine}`;
+}
+
+/**
+ * Markdown for one module. Each explanation's `path:line` links point to the
+ * generated section when that symbol is documented too, otherwise to the source
+ * file with a `#L` fragment. Links the view would not allow become plain text.
+ */
+function renderModule(mod: Module, modules: Module[], outDir: vscode.Uri): string {
+  const sections: string[] = [];
+  const contents: string[] = [];
+  const models = new Set<string>();
+
+  for (const { symbol, result } of mod.items) {
+    if (!result) continue;
+    models.add(result.model);
+    const anchor = anchorFor(symbol);
+    contents.push(`- [\`${symbol.name}\`](#${anchor}) (${symbol.kind})`);
+
+    const resolve = (linkPath: string, line: number, endLine?: number) => {
+      const allowed =
+        (endLine != null && result.allowedLinks.has(`${linkPath}:${line}-${endLine}`)) ||
+        result.allowedLinks.has(`${linkPath}:${line}`);
+      if (!allowed) return undefined;
+      const documented = modules.find((m) => m.relativePath === linkPath);
+      const section = documented?.items.find((i) => i.result && i.symbol.startLine === line);
+      if (documented && section) {
+        const file = documented === mod ? "" : hrefTo(outDir, mod.docPath, path.join(outDir.fsPath, documented.docPath));
+        return `${file}#${anchorFor(section.symbol)}`;
+      }
+      const folder = vscode.workspace.getWorkspaceFolder(mod.source);
+      const target = linkPath === mod.relativePath || !folder
+        ? mod.source.fsPath
+        : path.join(folder.uri.fsPath, linkPath);
+      return `${hrefTo(outDir, mod.docPath, target)}#L${line}${endLine != null && endLine > line ? `-L${endLine}` : ""}`;
+    };
+
+    const sourceLink = `${hrefTo(outDir, mod.docPath, mod.source.fsPath)}#L${symbol.startLine}-L${symbol.endLine}`;
+    sections.push(
+      [
+        `<a id="${anchor}"></a>`,
+        "",
+        `## \`${symbol.name}\``,
+        "",
+        `${symbol.kind} · [${mod.relativePath}:${symbol.startLine}](${sourceLink})`,
+        "",
+        rewriteFileLinks(result.markdown.trim(), resolve),
+      ].join("\n")
+    );
+  }
+
+  return [
+    `# \`${mod.relativePath}\``,
+    "",
+    `Generated by Symfocus from [${mod.relativePath}](${hrefTo(outDir, mod.docPath, mod.source.fsPath)}) with ${[...models].join(", ")} on ${new Date().toISOString().slice(0, 10)}.`,
+    "",
+    ...contents,
+    "",
+    sections.join("\n\n"),
+    "",
+  ].join("\n");
+}
+
+function renderIndex(modules: Module[]): string {
+  const lines = ["# API Reference", ""];
+  for (const mod of modules) {
+    const documented = mod.items.filter((i) => i.result);
+    if (documented.length === 0) continue;
+    const href = mod.docPath.split("/").map(encodeURIComponent).join("/");
+    lines.push(`- [\`${mod.relativePath}\`](${href}): ${documented.map((i) => `\`${i.symbol.name}\``).join(", ")}`);
+  }
+  lines.push("");
+  return lines.join("\n");
+}
+
+async function pickTarget(): Promise<vscode.Uri | undefined> {
+  const active = vscode.window.activeTextEditor?.document.uri;
+  const picked = await vscode.window.showOpenDialog({
+    canSelectFiles: true,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: active ? vscode.Uri.file(path.dirname(active.fsPath)) : vscode.workspace.workspaceFolders?.[0]?.uri,
+    openLabel: "Document",
+    title: "Symfocus: File or folder to document",
+  });
+  return picked?.[0];
+}
+
+/**
+ * `docs/api` in the target's workspace folder unless the user chooses another
+ * folder. Writing to the workspace root would mix the output with README and
+ * other top-level files.
+ */
+async function pickOutputFolder(target: vscode.Uri): Promise<vscode.Uri | undefined> {
+  const folder = vscode.workspace.getWorkspaceFolder(target)?.uri;
+  if (folder) {
+    const choice = await vscode.window.showQuickPick(
+      [
+        { label: DEFAULT_OUTPUT.join("/"), description: `in ${path.basename(folder.fsPath)}`, custom: false },
+        { label: "$(folder) Choose Another Folder…", custom: true },
+      ],
+      { title: "Symfocus: Output folder for the Markdown files" }
+    );
+    if (!choice) return undefined;
+    if (!choice.custom) return vscode.Uri.joinPath(folder, ...DEFAULT_OUTPUT);
+  }
+  const picked = await vscode.window.showOpenDialog({
+    canSelectFiles: false,
+    canSelectFolders: true,
+    canSelectMany: false,
+    defaultUri: folder,
+    openLabel: "Write Docs Here",
+    title: "Symfocus: Output folder for the Markdown files",
+  });
+  return picked?.[0];
+}
+
+/** Which of `files` already exist. */
+async function existingFiles(files: vscode.Uri[]): Promise<vscode.Uri[]> {
+  const found = await Promise.all(
+    files.map((f) =>
+      Promise.resolve(vscode.workspace.fs.stat(f)).then(
+        () => true,
+        () => false
+      )
+    )
+  );
+  return files.filter((_, i) => found[i]);
+}
+
+/**
+ * **Symfocus: Generate Documentation**: explains every exported function, class
+ * and interface of a file or folder and writes one Markdown file per module
+ * (`<path>.md`, mirroring the source tree) plus an index to the output folder.
+ */
+async function generateDocs(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void,
+  uri?: vscode.Uri
+): Promise<void> {
+  const target = uri ?? (await pickTarget());
+  if (!target) return;
+
+  const cfg = getSymfocusConfig(target);
+  const api = validateApiConfig(cfg);
+  if (!api.ok) {
+    const action = await vscode.window.showErrorMessage(
+      `Symfocus: Set in Settings: ${api.missing.join(", ")}.`,
+      "Configure"
+    );
+    if (action === "Configure") void vscode.commands.executeCommand("symfocus.configure");
+    return;
+  }
+
+  const outDir = await pickOutputFolder(target);
+  if (!outDir) return;
+
+  const modules = await vscode.window.withProgress(
+    { location: vscode.ProgressLocation.Notification, title: "Symfocus: Finding exported symbols…" },
+    async () => {
+      const files = await collectFiles(target, cfg.docs.include, cfg.docs.exclude);
+      const found = await collectModules(files, log);
+      log(`Docs: ${found.reduce((n, m) => n + m.items.length, 0)} symbols in ${found.length} of ${files.length} files`);
+      return found;
+    }
+  );
+  const items = modules.flatMap((m) => m.items);
+  if (items.length === 0) {
+    void vscode.window.showInformationMessage(
+      "Symfocus: No exported functions, classes or interfaces found."
+    );
+    return;
+  }
+
+  const existing = await existingFiles([
+    vscode.Uri.joinPath(outDir, INDEX_FILE),
+    ...modules.map((m) => vscode.Uri.joinPath(outDir, ...m.docPath.split("/"))),
+  ]);
+  if (existing.length > 0) {
+    const names = existing.map((f) => path.relative(outDir.fsPath, f.fsPath).split(path.sep).join("/"));
+    const overwrite = await vscode.window.showWarningMessage(
+      `Symfocus: ${existing.length} file${existing.length === 1 ? "" : "s"} in ${workspaceRelative(outDir)} would be overwritten.`,
+      {
+        modal: true,
+        detail: names.slice(0, 10).join("\n") + (names.length > 10 ? `\n…and ${names.length - 10} more` : ""),
+      },
+      "Overwrite"
+    );
+    if (overwrite !== "Overwrite") return;
+  }
+
+  const failures: string[] = [];
+  const outcome = await vscode.window.withProgress(
+    {
+      location: vscode.ProgressLocation.Notification,
+      title: "Symfocus: Generating documentation",
+      cancellable: true,
+    },
+    async (progress, token) => {
+      const abort = new AbortController();
+      token.onCancellationRequested(() => abort.abort());
+
+      const projectContext =
+        cfg.projectContext.trim() || (await detectProjectContext().catch(() => undefined));
+      let next = 0;
+      let done = 0;
+      const worker = async () => {
+        while (!abort.signal.aborted && next < items.length) {
+          const item = items[next++];
+          const label = `${workspaceRelative(item.doc.uri)}: ${item.symbol.name}`;
+          try {
+            item.result = await generateExplanation(context, item.doc, item.symbol.namePosition, {
+              cfg,
+              endpoints: api.endpoints,
+              projectContext,
+              signal: abort.signal,
+              log,
+            });
+            if (!item.result && !abort.signal.aborted) failures.push(`${label}: symbol not found`);
+          } catch (e) {
+            failures.push(`${label}: ${e instanceof Error ? e.message : String(e)}`);
+          }
+          done++;
+          progress.report({
+            increment: 100 / items.length,
+            message: `${done}/${items.length} ${item.symbol.name}`,
+          });
+        }
+      };
+      await Promise.all(
+        Array.from({ length: Math.min(cfg.docs.concurrency, items.length) }, () => worker())
+      );
+      return { done };
+    }
+  );
+
+  for (const failure of failures) log(`Docs: ${failure}`);
+  const written = modules.filter((m) => m.items.some((i) => i.result));
+  if (written.length === 0) {
+    void vscode.window.showErrorMessage(
+      "Symfocus: No documentation was generated. See the Symfocus output for details."
+    );
+    return;
+  }
+
+  try {
+    const encoder = new TextEncoder();
+    await vscode.workspace.fs.createDirectory(outDir);
+    for (const mod of written) {
+      const file = vscode.Uri.joinPath(outDir, ...mod.docPath.split("/"));
+      await vscode.workspace.fs.createDirectory(vscode.Uri.file(path.dirname(file.fsPath)));
+      await vscode.workspace.fs.writeFile(file, encoder.encode(renderModule(mod, written, outDir)));
+    }
+    await vscode.workspace.fs.writeFile(
+      vscode.Uri.joinPath(outDir, INDEX_FILE),
+      encoder.encode(renderIndex(written))
+    );
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    log(`Docs: write failed: ${msg}`);
+    void vscode.window.showErrorMessage(`Symfocus: Could not write documentation: ${msg}`);
+    return;
+  }
+
+  const documented = items.filter((i) => i.result).length;
+  const cancelled = outcome.done < items.length;
+  const action = await vscode.window.showInformationMessage(
+    `Symfocus: Documented ${documented} of ${items.length} symbols in ${written.length} file${written.length === 1 ? "" : "s"}` +
+      (cancelled ? " before cancelling" : "") +
+      (failures.length > 0 ? `; ${failures.length} failed (see the Symfocus output).` : "."),
+    "Open Index"
+  );
+  if (action === "Open Index") {
+    await vscode.window.showTextDocument(vscode.Uri.joinPath(outDir, INDEX_FILE));
+  }
+}
+
+export function registerDocGeneratorCommand(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.generateDocs", (uri?: unknown) =>
+      generateDocs(context, log, uri instanceof vscode.Uri ? uri : undefined)
+    )
+  );
+}
@@ -1,17 +1,109 @@
 import * as vscode from "vscode";
-import { findSymbolAtPosition, getImportBlock, getKindLabel } from "./symbolResolver";
-import { streamOpenAIChat } from "./llm";
+import {
+  findEnclosingSymbol,
+  findSymbolAtPosition,
+  findSymbolByName,
+  getDocumentOutline,
+  getImportBlock,
+  getKindLabel,
+  type SymbolInfo,
+} from "./symbolResolver";
+import { streamWithFailover } from "./llm";
 import { SymfocusViewProvider } from "./symfocusView";
-import { getSymfocusConfig, validateApiConfig } from "./config";
-import { SYSTEM_PROMPT, buildUserPrompt } from "./promptBuilder";
+import {
+  describeOverrides,
+  getEndpointChain,
+  getSymfocusConfig,
+  targetFor,
+  validateApiConfig,
+  type EndpointProfile,
+  type ExplanationMode,
+  type SymfocusConfig,
+} from "./config";
+import {
+  DIFF_SYSTEM_PROMPT,
+  FILE_SYSTEM_PROMPT,
+  SELECTION_SYSTEM_PROMPT,
+  SYSTEM_PROMPT,
+  buildDiffPrompt,
+  buildFilePrompt,
+  DOC_COMMENT_SYSTEM_PROMPT,
+  buildDocCommentPrompt,
+  buildSelectionPrompt,
+  buildUserPrompt,
+  type BuildUserPromptOptions,
+} from "./promptBuilder";
+import { selectPromptTemplates } from "./promptTemplates";
 import { renderMarkdown } from "./markdown";
 import { detectProjectContext } from "./contextDetector";
+import { estimateCost, formatUsage, recordUsage, UsageEntry } from "./usageTracker";
+import { cacheKey, getCacheSettings, readCache, writeCache } from "./explanationCache";
+import { streamWithTools, supportsTools } from "./agentTools";
+import { estimateTokens, getContextWindow } from "./promptBudget";
+import { getListedModels } from "./modelList";
+import { openHeadDocument, readHeadVersion } from "./gitHead";
+import { unifiedDiff } from "./lineDiff";
+import {
+  addHistoryEntry,
+  historyNav,
+  pickHistoryEntry,
+  resetHistoryCursor,
+  stepHistory,
+  type HistoryEntry,
+} from "./explanationHistory";
+import type { ChatMessage, StreamOpenAIChatOpts } from "./llm";
 
 let currentAbort: AbortController | null = null;
+/**
+ * The explanation or follow-up scheduled or running, from debounce to the end of
+ * the stream; follow mode does not replace one it did not start.
+ */
+let activeRequest: { background: boolean } | undefined;
 let lastRequestTime = 0;
 let debounceTimer: NodeJS.Timeout | undefined;
 const MIN_REQUEST_INTERVAL_MS = 2000;
 
+/**
+ * `selection` set for Explain Selection, `wholeFile` for Explain File, `diff` for
+ * Explain Changes; otherwise the symbol at `position` is explained.
+ */
+type ExplainTarget = {
+  doc: vscode.TextDocument;
+  position: vscode.Position;
+  selection?: vscode.Range;
+  wholeFile?: boolean;
+  diff?: boolean;
+};
+/**
+ * `mode` overrides `symfocus.explanationMode`; `background` (follow mode) leaves
+ * focus and the sidebar alone.
+ */
+type ExplainOptions = { bypassCache?: boolean; mode?: ExplanationMode; background?: boolean };
+
+/** Model warnings already shown this session, so each appears once. */
+const shownWarnings = new Set<string>();
+
+/** An explain target by URI, so it outlives the document. */
+type TargetRef = Omit<ExplainTarget, "doc"> & { uri: vscode.Uri };
+
+/** Last explained location, so "regenerate" works after the cursor has moved. */
+let lastTarget: TargetRef | undefined;
+
+/** History entry on screen; a follow-up rebuilds its thread from the entry's target. */
+let restoredEntry: HistoryEntry | undefined;
+
+/**
+ * Conversation behind the explanation on screen (system prompt, user prompt and
+ * answer), extended by follow-up questions. Cleared when a new symbol is explained.
+ */
+type Thread = {
+  messages: ChatMessage[];
+  allowedLinks: Set<string>;
+  endpoints: EndpointProfile[];
+  streamOpts: StreamOpenAIChatOpts;
+};
+let thread: Thread | undefined;
+
 type AllowedLinkInput = {
   relativePath: string;
   displayPath?: string;
@@ -39,6 +131,20 @@ function addAllowedLink(
   set.add(`${normalized}:${line}`);
 }
 
+/** Renders model markdown, falling back to escaped text if rendering throws. */
+async function toHtml(
+  markdown: string,
+  allowedLinks: Set<string>,
+  log: (msg: string) => void
+): Promise<string> {
+  try {
+    return await renderMarkdown(markdown, { allowedLinks });
+  } catch (e) {
+    log(`renderMarkdown error: ${e instanceof Error ? e.message : String(e)}`);
+    return `<p>${markdown.replace(/</g, "&lt;").replace(/>/g, "&gt;")}</p>`;
+  }
+}
+
 function collectAllowedLinks(input: AllowedLinkInput): Set<string> {
   const allowed = new Set<string>();
   const startLine = input.symbolRange.start.line + 1;
@@ -86,217 +192,1152 @@ function collectAllowedLinks(input: AllowedLinkInput): Set<string> {
   return allowed;
 }
 
-export function registerExplainCommand(
+/**
+ * Debounces and serializes explain requests: aborts the in-flight request, waits
+ * 500ms for further triggers, enforces MIN_REQUEST_INTERVAL_MS, then resolves the
+ * target (which may have changed during the wait) and runs `executeExplain`.
+ */
+function scheduleExplain(
   context: vscode.ExtensionContext,
   log: (msg: string) => void,
-  viewProvider: SymfocusViewProvider
+  viewProvider: SymfocusViewProvider,
+  resolveTarget: () => Promise<ExplainTarget | undefined>,
+  options: ExplainOptions = {}
 ): void {
-  context.subscriptions.push(
-    vscode.commands.registerCommand("symfocus.explainSymbol", async () => {
-      log("Explain started (debouncing)");
+  log("Explain started (debouncing)");
 
-      if (debounceTimer) {
-        clearTimeout(debounceTimer);
-        debounceTimer = undefined;
-      }
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = undefined;
+  }
 
-      if (currentAbort) {
-        log("Aborting previous request");
-        currentAbort.abort();
-        currentAbort = null;
-      }
+  if (currentAbort) {
+    log("Aborting previous request");
+    currentAbort.abort();
+    currentAbort = null;
+  }
 
-      viewProvider.post({
-        type: "status",
-        status: "Waiting...",
-        badge: "...",
-      });
+  viewProvider.post({
+    type: "status",
+    status: "Waiting...",
+    badge: "...",
+  });
+
+  const request = { background: !!options.background };
+  activeRequest = request;
+  debounceTimer = setTimeout(async () => {
+    debounceTimer = undefined;
+    try {
+      const target = await resolveTarget();
+      if (!target) return;
+
+      const now = Date.now();
+      const timeSinceLast = now - lastRequestTime;
+      if (timeSinceLast < MIN_REQUEST_INTERVAL_MS) {
+        const waitTime = MIN_REQUEST_INTERVAL_MS - timeSinceLast;
+        log(`Rate limit: waiting ${waitTime}ms`);
+        viewProvider.post({
+          type: "status",
+          status: `Cooling down (${Math.ceil(waitTime / 1000)}s)...`,
+          badge: "Wait",
+        });
+        await new Promise((resolve) => setTimeout(resolve, waitTime));
+      }
 
-      debounceTimer = setTimeout(async () => {
-        debounceTimer = undefined;
+      await executeExplain(context, target, log, viewProvider, options);
+    } finally {
+      if (activeRequest === request) activeRequest = undefined;
+    }
+  }, 500);
+}
 
+export function registerExplainCommand(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void,
+  viewProvider: SymfocusViewProvider
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.explainSymbol", () => {
+      scheduleExplain(context, log, viewProvider, async () => {
         const editor = vscode.window.activeTextEditor;
         if (!editor) {
           log("No active editor");
-          return;
+          return undefined;
         }
-
-        const now = Date.now();
-        const timeSinceLast = now - lastRequestTime;
-        if (timeSinceLast < MIN_REQUEST_INTERVAL_MS) {
-          const waitTime = MIN_REQUEST_INTERVAL_MS - timeSinceLast;
-          log(`Rate limit: waiting ${waitTime}ms`);
-          viewProvider.post({
-            type: "status",
-            status: `Cooling down (${Math.ceil(waitTime / 1000)}s)...`,
-            badge: "Wait",
-          });
-          await new Promise((resolve) => setTimeout(resolve, waitTime));
+        return {
+          doc: editor.document,
+          position: editor.selection.isEmpty
+            ? editor.selection.active
+            : editor.selection.start,
+        };
+      });
+    }),
+    vscode.commands.registerCommand("symfocus.explainSelection", () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor || editor.selection.isEmpty) {
+        void vscode.window.showInformationMessage("Symfocus: Select the code to explain first.");
+        return;
+      }
+      const doc = editor.document;
+      const selection = new vscode.Range(editor.selection.start, editor.selection.end);
+      scheduleExplain(context, log, viewProvider, async () => ({
+        doc,
+        position: selection.start,
+        selection,
+      }));
+    }),
+    vscode.commands.registerCommand("symfocus.explainFile", (uri?: unknown) => {
+      scheduleExplain(context, log, viewProvider, async () => {
+        let doc = vscode.window.activeTextEditor?.document;
+        if (uri instanceof vscode.Uri) {
+          try {
+            doc = await vscode.workspace.openTextDocument(uri);
+          } catch (e) {
+            log(`Explain File: cannot open ${uri.toString()}: ${e}`);
+            return undefined;
+          }
+        }
+        if (!doc) {
+          log("No active editor");
+          return undefined;
         }
+        return { doc, position: new vscode.Position(0, 0), wholeFile: true };
+      });
+    }),
+    vscode.commands.registerCommand("symfocus.explainChanges", () => {
+      const editor = vscode.window.activeTextEditor;
+      if (!editor) {
+        log("No active editor");
+        return;
+      }
+      if (editor.document.uri.scheme !== "file") {
+        void vscode.window.showInformationMessage(
+          "Symfocus: Explain Changes works on files saved in a git repository."
+        );
+        return;
+      }
+      scheduleExplain(context, log, viewProvider, async () => ({
+        doc: editor.document,
+        position: editor.selection.active,
+        diff: true,
+      }));
+    }),
+    vscode.commands.registerCommand("symfocus.regenerateExplanation", () => {
+      const target = lastTarget;
+      if (!target) {
+        void vscode.commands.executeCommand("symfocus.explainSymbol");
+        return;
+      }
+      scheduleExplain(
+        context,
+        log,
+        viewProvider,
+        () => openTarget(target, log),
+        { bypassCache: true }
+      );
+    }),
+    vscode.commands.registerCommand("symfocus.followUp", (question: unknown) => {
+      if (typeof question === "string" && question.trim()) {
+        void executeFollowUp(context, question.trim(), log, viewProvider);
+      }
+    }),
+    vscode.commands.registerCommand("symfocus.showHistory", async () => {
+      const entry = await pickHistoryEntry(context.workspaceState);
+      if (entry) await showHistoryEntry(context, entry, log, viewProvider);
+    }),
+    vscode.commands.registerCommand("symfocus.historyBack", async () => {
+      const entry = stepHistory(context.workspaceState, -1);
+      if (entry) await showHistoryEntry(context, entry, log, viewProvider);
+    }),
+    vscode.commands.registerCommand("symfocus.historyForward", async () => {
+      const entry = stepHistory(context.workspaceState, 1);
+      if (entry) await showHistoryEntry(context, entry, log, viewProvider);
+    })
+  );
+  registerFollowMode(context, log, viewProvider);
+}
+
+/** Selection changes this soon after an edit come from typing, not from moving the cursor. */
+const EDIT_SETTLE_MS = 100;
+
+/**
+ * Follow mode: once the cursor rests on a different symbol for
+ * `symfocus.follow.dwellMs`, explains it in quick mode through `scheduleExplain`.
+ * Only runs while the Symfocus view is visible; a status bar item toggles it.
+ */
+function registerFollowMode(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void,
+  viewProvider: SymfocusViewProvider
+): void {
+  let dwellTimer: ReturnType<typeof setTimeout> | undefined;
+  let lastEditAt = 0;
+  /** Document and range of the symbol follow mode explained last. */
+  let lastKey: string | undefined;
+
+  const cancelDwell = () => {
+    if (dwellTimer) {
+      clearTimeout(dwellTimer);
+      dwellTimer = undefined;
+    }
+  };
+
+  const statusItem = vscode.window.createStatusBarItem(vscode.StatusBarAlignment.Right, 100);
+  statusItem.command = "symfocus.toggleFollow";
+  const updateStatusItem = () => {
+    const enabled = getSymfocusConfig().follow.enabled;
+    statusItem.text = enabled ? "$(eye) Symfocus" : "$(eye-closed) Symfocus";
+    statusItem.tooltip = enabled
+      ? "Symfocus follow mode is on: resting the cursor on a symbol explains it. Click to turn off."
+      : "Symfocus follow mode is off. Click to explain the symbol under the cursor as you move.";
+    statusItem.show();
+    if (!enabled) {
+      cancelDwell();
+      lastKey = undefined;
+    }
+  };
+  updateStatusItem();
+
+  context.subscriptions.push(
+    statusItem,
+    { dispose: cancelDwell },
+    vscode.commands.registerCommand("symfocus.toggleFollow", async () => {
+      const key = "symfocus.follow.enabled";
+      const enabled = !getSymfocusConfig().follow.enabled;
+      await vscode.workspace.getConfiguration().update(key, enabled, targetFor(key));
+      log(`Follow mode ${enabled ? "on" : "off"}`);
+    }),
+    vscode.workspace.onDidChangeConfiguration((e) => {
+      if (e.affectsConfiguration("symfocus.follow")) updateStatusItem();
+    }),
+    vscode.workspace.onDidChangeTextDocument((e) => {
+      if (e.contentChanges.length > 0 && e.document === vscode.window.activeTextEditor?.document) {
+        lastEditAt = Date.now();
+        cancelDwell();
+      }
+    }),
+    vscode.window.onDidChangeTextEditorSelection((e) => {
+      cancelDwell();
+      const doc = e.textEditor.document;
+      const cfg = getSymfocusConfig(doc);
+      if (!cfg.follow.enabled || !viewProvider.visible) return;
+      if (e.textEditor !== vscode.window.activeTextEditor) return;
+      if (doc.uri.scheme !== "file" && doc.uri.scheme !== "untitled") return;
+      if (e.selections.length !== 1 || !e.selections[0].isEmpty) return;
+      if (Date.now() - lastEditAt < EDIT_SETTLE_MS) return;
 
-        await executeExplain(editor, log, viewProvider);
-      }, 500);
+      const position = e.selections[0].active;
+      const version = doc.version;
+      dwellTimer = setTimeout(async () => {
+        dwellTimer = undefined;
+        const info = await findSymbolAtPosition(doc, position, {
+          includeDefinition: false,
+          includeReferences: false,
+        });
+        if (!info || doc.version !== version || !viewProvider.visible) return;
+        // Never cancel an explanation or follow-up the user asked for.
+        if (activeRequest && !activeRequest.background) return;
+        const { start, end } = info.range;
+        const key = `${doc.uri.toString()}#${start.line}:${start.character}-${end.line}:${end.character}`;
+        if (key === lastKey) return;
+        lastKey = key;
+        // Keep an explanation the user asked for while the cursor stays in its symbol.
+        if (
+          lastTarget &&
+          !lastTarget.selection &&
+          !lastTarget.wholeFile &&
+          lastTarget.uri.toString() === doc.uri.toString() &&
+          info.range.contains(lastTarget.position)
+        ) {
+          return;
+        }
+        log(`Follow: ${info.name}`);
+        scheduleExplain(context, log, viewProvider, async () => ({ doc, position }), {
+          mode: "quick",
+          background: true,
+        });
+      }, cfg.follow.dwellMs);
     })
   );
 }
 
-async function executeExplain(
-  editor: vscode.TextEditor,
+/**
+ * Shows a stored explanation without calling the model. Cancels any request in
+ * flight, and "regenerate" then targets the restored symbol.
+ */
+async function showHistoryEntry(
+  context: vscode.ExtensionContext,
+  entry: HistoryEntry,
   log: (msg: string) => void,
   viewProvider: SymfocusViewProvider
-) {
-  const doc = editor.document;
-  const position = editor.selection.isEmpty
-    ? editor.selection.active
-    : editor.selection.start;
+): Promise<void> {
+  if (debounceTimer) {
+    clearTimeout(debounceTimer);
+    debounceTimer = undefined;
+  }
+  if (currentAbort) {
+    log("Aborting previous request");
+    currentAbort.abort();
+    currentAbort = null;
+  }
+  activeRequest = undefined;
+  thread = undefined;
+  restoredEntry = entry;
+  if (entry.target) {
+    lastTarget = fromHistoryTarget(entry.target);
+  } else if (entry.symbol.line) {
+    lastTarget = {
+      uri: vscode.Uri.file(entry.symbol.path),
+      position: new vscode.Position(entry.symbol.line - 1, Math.max(0, (entry.symbol.col ?? 1) - 1)),
+    };
+  }
+  log(`History: ${entry.symbol.name} (${entry.symbol.location})`);
 
-  const cfg = getSymfocusConfig();
+  void vscode.commands.executeCommand("workbench.view.extension.symfocus");
+  viewProvider.show(true);
+  viewProvider.post({ type: "loading" });
+  viewProvider.post({ type: "info", symbol: entry.symbol });
+  viewProvider.post({
+    type: "show",
+    html: await toHtml(entry.markdown, new Set(entry.allowedLinks), log),
+  });
+  viewProvider.post({
+    type: "status",
+    status: `From history (${entry.model}, ${new Date(entry.createdAt).toLocaleString()})`,
+    badge: "Ready",
+  });
+  viewProvider.post({ type: "historyNav", ...historyNav(context.workspaceState) });
+  if (entry.target) viewProvider.post({ type: "followUpReady" });
+}
+
+function toHistoryTarget(ref: TargetRef): NonNullable<HistoryEntry["target"]> {
+  const { uri, position, selection: sel, wholeFile, diff } = ref;
+  return {
+    uri: uri.toString(),
+    line: position.line,
+    character: position.character,
+    selection: sel && [sel.start.line, sel.start.character, sel.end.line, sel.end.character],
+    wholeFile,
+    diff,
+  };
+}
+
+function fromHistoryTarget(t: NonNullable<HistoryEntry["target"]>): TargetRef {
+  return {
+    uri: vscode.Uri.parse(t.uri),
+    position: new vscode.Position(t.line, t.character),
+    selection: t.selection && new vscode.Range(...t.selection),
+    wholeFile: t.wholeFile,
+    diff: t.diff,
+  };
+}
+
+async function openTarget(ref: TargetRef, log: (msg: string) => void): Promise<ExplainTarget | undefined> {
+  try {
+    const { uri, ...rest } = ref;
+    return { ...rest, doc: await vscode.workspace.openTextDocument(uri) };
+  } catch (e) {
+    log(`Cannot open ${ref.uri.toString()}: ${e}`);
+    return undefined;
+  }
+}
+
+/**
+ * Thread for a restored history entry: the prompt is rebuilt from the entry's
+ * target and the stored explanation is the answer. Undefined when the target
+ * can no longer be explained or the API is not configured.
+ */
+async function threadFromHistory(
+  entry: HistoryEntry,
+  log: (msg: string) => void
+): Promise<Thread | undefined> {
+  const target = entry.target && (await openTarget(fromHistoryTarget(entry.target), log));
+  if (!target) return undefined;
+  const cfg = getSymfocusConfig(target.doc);
   const api = validateApiConfig(cfg);
+  if (!api.ok) return undefined;
+  const prepared = await prepareRequest(target, cfg, api.endpoints, log);
+  if (!prepared?.ok) return undefined;
+  return {
+    messages: [
+      { role: "system", content: prepared.request.systemPrompt },
+      { role: "user", content: prepared.request.userPrompt },
+      { role: "assistant", content: entry.markdown },
+    ],
+    allowedLinks: new Set(entry.allowedLinks),
+    endpoints: api.endpoints,
+    streamOpts: { ...headlessStreamOpts(cfg, log), maxTokens: prepared.maxTokens },
+  };
+}
+
+/**
+ * Answers a follow-up question about the explanation on screen, sending the
+ * thread so far as history. Replies stream into the view with the explanation's
+ * link allowlist; a new explanation aborts the request and drops the thread.
+ */
+async function executeFollowUp(
+  context: vscode.ExtensionContext,
+  question: string,
+  log: (msg: string) => void,
+  viewProvider: SymfocusViewProvider
+): Promise<void> {
+  const restored = restoredEntry;
+  if (!thread && restored && !currentAbort) {
+    viewProvider.post({ type: "status", status: "Rebuilding context…", badge: "Working" });
+    const rebuilt = await threadFromHistory(restored, log);
+    if (rebuilt && restoredEntry === restored && !thread) thread = rebuilt;
+    if (!rebuilt) viewProvider.post({ type: "status", status: "Context unavailable", badge: "Error" });
+  }
+  const current = thread;
+  if (!current || currentAbort) {
+    viewProvider.post({
+      type: "followUpDone",
+      error: current
+        ? "Wait for the current request to finish."
+        : restored
+          ? "Cannot rebuild the context of this explanation. Explain it again first."
+          : "Explain a symbol first.",
+    });
+    return;
+  }
+
+  const ourAbort = new AbortController();
+  currentAbort = ourAbort;
+  const request = { background: false };
+  activeRequest = request;
+  const messages: ChatMessage[] = [...current.messages, { role: "user", content: question }];
+  let answering = current.endpoints[0];
+  let answer = "";
+  let error: string | undefined;
+  let usage: UsageEntry | undefined;
+  let renderTimer: NodeJS.Timeout | undefined;
+  const render = async () => {
+    renderTimer = undefined;
+    const html = await toHtml(answer, current.allowedLinks, log);
+    if (thread === current) viewProvider.post({ type: "followUpShow", html });
+  };
+
+  log(`Follow-up (${messages.length - 2} messages of history): ${question.slice(0, 80)}`);
+  viewProvider.post({ type: "status", status: "Answering follow-up…", badge: "Working" });
+  try {
+    for await (const chunk of streamWithFailover(
+      current.endpoints,
+      messages,
+      ourAbort.signal,
+      current.streamOpts
+    )) {
+      if (chunk.type === "chunk") {
+        answer += chunk.content;
+        renderTimer ??= setTimeout(() => void render(), 50);
+      } else if (chunk.type === "usage") {
+        usage = {
+          model: answering.model,
+          promptTokens: chunk.promptTokens,
+          completionTokens: chunk.completionTokens,
+          cost: estimateCost(answering.model, chunk.promptTokens, chunk.completionTokens),
+        };
+      } else if (chunk.type === "failover") {
+        answering = current.endpoints.find((e) => e.name === chunk.to) ?? answering;
+      } else if (chunk.type === "retry") {
+        viewProvider.post({
+          type: "status",
+          status: `${chunk.reason}, retrying in ${Math.ceil(chunk.remainingMs / 1000)}s (attempt ${chunk.attempt}/${chunk.maxAttempts})…`,
+          badge: "Wait",
+        });
+      } else if (chunk.type === "done") {
+        if (!answer) error = "No answer was generated.";
+        break;
+      } else if (chunk.type === "error") {
+        if (!chunk.aborted) error = chunk.message;
+        break;
+      }
+    }
+  } catch (e) {
+    error = e instanceof Error ? e.message : String(e);
+  } finally {
+    lastRequestTime = Date.now();
+    if (currentAbort === ourAbort) currentAbort = null;
+    if (activeRequest === request) activeRequest = undefined;
+  }
+
+  if (renderTimer) clearTimeout(renderTimer);
+  if (thread !== current || ourAbort.signal.aborted) return;
+  if (error) {
+    log(`Follow-up error: ${error}`);
+    viewProvider.post({ type: "followUpDone", error });
+    viewProvider.post({ type: "status", status: error, badge: "Error" });
+    return;
+  }
+  await render();
+  current.messages.push(
+    { role: "user", content: question },
+    { role: "assistant", content: answer }
+  );
+  viewProvider.post({ type: "followUpDone" });
+  viewProvider.post({ type: "status", status: "Answer ready", badge: "Ready" });
+  if (usage) {
+    log(`Usage: ${formatUsage(usage)}`);
+    viewProvider.post({ type: "usage", text: formatUsage(usage) });
+    await recordUsage(context.globalState, usage);
+  }
+}
+
+/** Paths a link into the explained file may use. */
+function linkPaths(relativePath: string, displayPath: string): string[] {
+  return displayPath !== relativePath && !displayPath.includes(":")
+    ? [relativePath, displayPath]
+    : [relativePath];
+}
+
+/** Inputs shared by the symbol, selection and file prompts. */
+type RequestContext = {
+  doc: vscode.TextDocument;
+  cfg: SymfocusConfig;
+  relativePath: string;
+  displayPath: string;
+  projectContext?: string;
+  /** Context window minus the reply's max tokens; the system prompt comes out of this. */
+  promptTokens: number;
+  log: (msg: string) => void;
+};
+
+function maxTokensFor(mode: ExplanationMode): number {
+  return mode === "quick" ? 768 : mode === "standard" ? 1536 : 2048;
+}
+
+/** Paths, project context and prompt budget for one request against `endpoints[0]`. */
+function createRequestContext(
+  doc: vscode.TextDocument,
+  cfg: SymfocusConfig,
+  endpoints: EndpointProfile[],
+  projectContext: string | undefined,
+  log: (msg: string) => void
+): { rc: RequestContext; maxTokens: number; contextWindow: number } {
+  const workspaceRoot = vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.fsPath ?? "";
+  const relativePath = workspaceRoot ? vscode.workspace.asRelativePath(doc.uri) : doc.uri.fsPath;
+  const displayPath = relativePath || doc.uri.fsPath;
+  if (projectContext) {
+    log(`Project context: ${projectContext.slice(0, 50)}...`);
+  }
+
+  const maxTokens = maxTokensFor(cfg.explanationMode);
+  // Budget for the primary endpoint; failover profiles are assumed to be no smaller.
+  const contextWindow = getContextWindow(endpoints[0].model, endpoints[0].provider, cfg.ollama.numCtx);
+  return {
+    rc: {
+      doc,
+      cfg,
+      relativePath,
+      displayPath,
+      projectContext,
+      promptTokens: contextWindow - (endpoints[0].maxTokens ?? maxTokens),
+      log,
+    },
+    maxTokens,
+    contextWindow,
+  };
+}
+
+/** Agent mode is on and the whole endpoint chain can run the tool loop. */
+function useAgent(cfg: SymfocusConfig, endpoints: EndpointProfile[]): boolean {
+  return cfg.agent.enabled && supportsTools(endpoints);
+}
+
+function explanationCacheKey(
+  cfg: SymfocusConfig,
+  endpoints: EndpointProfile[],
+  request: ExplainRequest
+): string {
+  return cacheKey({
+    model: endpoints[0].model,
+    systemPrompt: request.systemPrompt,
+    userPrompt: request.userPrompt,
+    mode: useAgent(cfg, endpoints) ? `${cfg.explanationMode}+agent` : cfg.explanationMode,
+  });
+}
+
+/** Streams the explanation, through the tool loop when `useAgent` allows it. */
+function openExplanationStream(
+  cfg: SymfocusConfig,
+  endpoints: EndpointProfile[],
+  messages: ChatMessage[],
+  signal: AbortSignal,
+  streamOpts: StreamOpenAIChatOpts,
+  origin: vscode.Uri
+) {
+  return useAgent(cfg, endpoints)
+    ? streamWithTools(
+        (msgs, tools) => streamWithFailover(endpoints, msgs, signal, { ...streamOpts, tools }),
+        messages,
+        cfg.agent.maxRounds,
+        signal,
+        origin
+      )
+    : streamWithFailover(endpoints, messages, signal, streamOpts);
+}
+
+/** What to send for one explanation and how to show it. */
+type ExplainRequest = {
+  systemPrompt: string;
+  userPrompt: string;
+  allowedLinks: Set<string>;
+  symbol: HistoryEntry["symbol"];
+  /** Markdown shown above the explanation and kept in the history; not part of the reply. */
+  preamble?: string;
+};
+
+function hoverText(rawHover: vscode.Hover | undefined): string | undefined {
+  if (!rawHover?.contents) return undefined;
+  const arr = Array.isArray(rawHover.contents) ? rawHover.contents : [rawHover.contents];
+  const parts = arr.map((x: vscode.MarkedString | vscode.MarkdownString) =>
+    typeof x === "string" ? x : (x as { value?: string }).value ?? ""
+  );
+  const s = parts.join("\n").slice(0, 400).trim();
+  return s.length > 0 ? s : undefined;
+}
+
+/** Symbol context for `buildUserPrompt`, without the token budget or templates. */
+function symbolPromptOptions(
+  rc: RequestContext,
+  info: SymbolInfo,
+  ideHover: string | undefined
+): BuildUserPromptOptions {
+  const { doc, cfg, displayPath, projectContext } = rc;
+  return {
+    importBlock: getImportBlock(doc, info.range.start.line, 20),
+    ideHover,
+    ...(cfg.includeDetail && info.detail != null && { detail: info.detail }),
+    ...(info.containerName != null && { containerName: info.containerName }),
+    ...(info.isDeprecated && { isDeprecated: true }),
+    ...(cfg.includeDefinition && info.definitionLocation != null && {
+      definitionLocation: info.definitionLocation,
+    }),
+    ...(cfg.includeReferences && info.referencesSummary != null && {
+      referencesSummary: info.referencesSummary,
+    }),
+    ...(cfg.includeReferences && info.callerSnippets != null && {
+      callerSnippets: info.callerSnippets,
+    }),
+    line: info.range.start.line + 1,
+    column: info.range.start.character + 1,
+    displayPath,
+    explanationMode: cfg.explanationMode,
+    experienceLevel: cfg.experienceLevel,
+    projectContext,
+  };
+}
+
+function buildSymbolRequest(
+  rc: RequestContext,
+  info: SymbolInfo,
+  rawHover: vscode.Hover | undefined
+): ExplainRequest {
+  const { doc, cfg, relativePath, displayPath, log } = rc;
+  log(`Symbol: ${info.name} (${getKindLabel(info.kind)})`);
+
+  const ideHover = hoverText(rawHover);
+  const templates = cfg.useWorkspaceTemplates
+    ? selectPromptTemplates(doc, getKindLabel(info.kind), cfg.explanationMode)
+    : {};
+  const systemPrompt = templates.system?.body ?? SYSTEM_PROMPT;
+  if (templates.system || templates.user) {
+    log(
+      `Prompt templates: ${[templates.system?.path, templates.user?.path].filter(Boolean).join(", ")}`
+    );
+  }
+
+  const userPrompt = buildUserPrompt(
+    relativePath,
+    info.name,
+    getKindLabel(info.kind),
+    doc.languageId,
+    info.source,
+    {
+      ...symbolPromptOptions(rc, info, ideHover),
+      tokenBudget: rc.promptTokens - estimateTokens(systemPrompt),
+      ...(templates.user && {
+        template: templates.user.body || undefined,
+        sections: templates.user.sections,
+        addSections: templates.user.addSections,
+      }),
+    }
+  );
+
+  const allowedLinks = collectAllowedLinks({
+    relativePath,
+    displayPath,
+    symbolRange: info.range,
+    definitionLocation: info.definitionLocation,
+    referencesSummary: info.referencesSummary,
+    callerSnippets: info.callerSnippets,
+  });
+
+  return {
+    systemPrompt,
+    userPrompt,
+    allowedLinks,
+    symbol: {
+      name: info.name,
+      kind: getKindLabel(info.kind),
+      location: displayPath,
+      path: doc.uri.fsPath,
+      line: info.range.start.line + 1,
+      col: info.range.start.character + 1,
+      ...(ideHover && { signature: ideHover }),
+    },
+  };
+}
+
+/**
+ * Explain File: the document symbol tree as an outline with real line numbers,
+ * plus the source. Links may point at any outlined symbol's start line or span.
+ */
+async function buildFileRequest(rc: RequestContext): Promise<ExplainRequest> {
+  const { doc, cfg, relativePath, displayPath, projectContext, log } = rc;
+  const outline = await getDocumentOutline(doc);
+  log(`File: ${outline.length} outlined symbols`);
+
+  const userPrompt = buildFilePrompt(relativePath, doc.languageId, doc.getText(), outline, {
+    displayPath,
+    explanationMode: cfg.explanationMode,
+    experienceLevel: cfg.experienceLevel,
+    projectContext,
+    tokenBudget: rc.promptTokens - estimateTokens(FILE_SYSTEM_PROMPT),
+  });
+
+  const allowedLinks = new Set<string>();
+  for (const p of linkPaths(relativePath, displayPath)) {
+    for (const s of outline) addAllowedLink(allowedLinks, p, s.startLine, s.endLine);
+  }
+
+  return {
+    systemPrompt: FILE_SYSTEM_PROMPT,
+    userPrompt,
+    allowedLinks,
+    symbol: {
+      name: relativePath.split(/[\\/]/).pop() ?? relativePath,
+      kind: "file",
+      location: displayPath,
+      path: doc.uri.fsPath,
+      line: 1,
+      col: 1,
+    },
+  };
+}
+
+/** Every line-range link inside a selection is allowed up to this many lines; beyond it, single lines only. */
+const MAX_RANGE_LINK_LINES = 200;
+
+/** Allows links to each line from `startLine` to `endLine` (1-based), and to the spans between them. */
+function addLineLinks(
+  allowedLinks: Set<string>,
+  relativePath: string,
+  displayPath: string,
+  startLine: number,
+  endLine: number
+): void {
+  for (const p of linkPaths(relativePath, displayPath)) {
+    for (let line = startLine; line <= endLine; line++) {
+      addAllowedLink(allowedLinks, p, line);
+      if (endLine - startLine < MAX_RANGE_LINK_LINES) {
+        for (let end = line + 1; end <= endLine; end++) addAllowedLink(allowedLinks, p, line, end);
+      }
+    }
+    addAllowedLink(allowedLinks, p, startLine, endLine);
+  }
+}
+
+/**
+ * Explain Selection: the exact selected text with file line numbers, plus the
+ * enclosing symbol's name, signature and declaration as context. Links may point
+ * at any line (or range of lines) inside the selection.
+ */
+function buildSelectionRequest(
+  rc: RequestContext,
+  selection: vscode.Range,
+  enclosing: SymbolInfo | undefined
+): ExplainRequest {
+  const { doc, cfg, relativePath, displayPath, projectContext, log } = rc;
+  const source = doc.getText(selection).replace(/\r?\n$/, "");
+  const startLine = selection.start.line + 1;
+  const endLine = startLine + source.split("\n").length - 1;
+  const range = endLine > startLine ? `${startLine}-${endLine}` : String(startLine);
+  log(`Selection: lines ${range}${enclosing ? ` in ${enclosing.name}` : ""}`);
+
+  let header: string | undefined;
+  if (enclosing && enclosing.range.start.line < selection.start.line) {
+    const last = Math.min(enclosing.range.start.line + 4, selection.start.line - 1);
+    header = doc.getText(
+      new vscode.Range(enclosing.range.start.line, 0, last, doc.lineAt(last).range.end.character)
+    );
+  }
+
+  const userPrompt = buildSelectionPrompt(relativePath, doc.languageId, source, startLine, {
+    ...(enclosing && {
+      enclosing: {
+        name: enclosing.name,
+        kind: getKindLabel(enclosing.kind),
+        startLine: enclosing.range.start.line + 1,
+        endLine: enclosing.range.end.line + 1,
+        ...(cfg.includeDetail && enclosing.detail != null && { detail: enclosing.detail }),
+        ...(header && { header }),
+      },
+    }),
+    importBlock: getImportBlock(doc, enclosing?.range.start.line ?? selection.start.line, 20),
+    displayPath,
+    explanationMode: cfg.explanationMode,
+    experienceLevel: cfg.experienceLevel,
+    projectContext,
+    tokenBudget: rc.promptTokens - estimateTokens(SELECTION_SYSTEM_PROMPT),
+  });
+
+  const allowedLinks = new Set<string>();
+  addLineLinks(allowedLinks, relativePath, displayPath, startLine, endLine);
+
+  return {
+    systemPrompt: SELECTION_SYSTEM_PROMPT,
+    userPrompt,
+    allowedLinks,
+    symbol: {
+      name: enclosing ? `${enclosing.name}, lines ${range}` : `Lines ${range}`,
+      kind: "selection",
+      location: displayPath,
+      path: doc.uri.fsPath,
+      line: startLine,
+      col: selection.start.character + 1,
+    },
+  };
+}
+
+/**
+ * Explain Changes: the symbol's HEAD and current source with a unified diff,
+ * which is also shown above the explanation. The HEAD symbol is matched by name
+ * and container. Undefined when nothing changed; throws when git cannot read HEAD.
+ */
+async function buildDiffRequest(rc: RequestContext, info: SymbolInfo): Promise<ExplainRequest | undefined> {
+  const { doc, cfg, relativePath, displayPath, projectContext, log } = rc;
+  const headText = await readHeadVersion(doc.uri.fsPath);
+  let before: SymbolInfo | null = null;
+  if (headText !== undefined) {
+    if (headText.replace(/\r\n/g, "\n") === doc.getText().replace(/\r\n/g, "\n")) return undefined;
+    const headDoc = await openHeadDocument(doc.uri, doc.languageId, headText);
+    before = await findSymbolByName(headDoc, info.name, info.containerName, info.kind);
+  }
+  const startLine = info.range.start.line + 1;
+  const endLine = info.range.end.line + 1;
+  log(
+    `Changes: ${info.name} ${
+      headText === undefined
+        ? "(file not in HEAD)"
+        : before
+          ? `(HEAD lines ${before.range.start.line + 1}-${before.range.end.line + 1})`
+          : "(new since HEAD)"
+    }`
+  );
+
+  const diff = unifiedDiff(before?.source ?? "", info.source, {
+    beforeStart: before ? before.range.start.line + 1 : 1,
+    afterStart: startLine,
+  });
+  if (!diff) return undefined;
+
+  const userPrompt = buildDiffPrompt(
+    relativePath,
+    info.name,
+    getKindLabel(info.kind),
+    doc.languageId,
+    before?.source,
+    info.source,
+    startLine,
+    diff,
+    {
+      ...(info.containerName && { containerName: info.containerName }),
+      displayPath,
+      explanationMode: cfg.explanationMode,
+      experienceLevel: cfg.experienceLevel,
+      projectContext,
+      tokenBudget: rc.promptTokens - estimateTokens(DIFF_SYSTEM_PROMPT),
+    }
+  );
+
+  const allowedLinks = new Set<string>();
+  addLineLinks(allowedLinks, relativePath, displayPath, startLine, endLine);
+
+  return {
+    systemPrompt: DIFF_SYSTEM_PROMPT,
+    userPrompt,
+    allowedLinks,
+    symbol: {
+      name: `${info.name}, changes since HEAD`,
+      kind: getKindLabel(info.kind),
+      location: displayPath,
+      path: doc.uri.fsPath,
+      line: startLine,
+      col: info.range.start.character + 1,
+    },
+    preamble: `**${before ? "Changes since HEAD" : "New since HEAD"}**\n\n\`\`\`diff\n${diff}\n\`\`\``,
+  };
+}
+
+/** Prompt for one explain target, or what to show instead when there is nothing to explain. */
+type PreparedRequest =
+  | { ok: true; request: ExplainRequest; rc: RequestContext; maxTokens: number; contextWindow: number }
+  | { ok: false; status: string; badge: string; message: string };
+
+/**
+ * Resolves the symbol at `target` and builds its prompt: whole file, selection,
+ * changes since HEAD, or the symbol at the cursor. Undefined once `signal` aborts.
+ */
+async function prepareRequest(
+  target: ExplainTarget,
+  cfg: SymfocusConfig,
+  endpoints: EndpointProfile[],
+  log: (msg: string) => void,
+  signal?: AbortSignal
+): Promise<PreparedRequest | undefined> {
+  const { doc, position, selection, wholeFile, diff } = target;
+  const findOpts = {
+    includeDefinition: cfg.includeDefinition,
+    includeReferences: cfg.includeReferences,
+    refsCap: cfg.referencesCap,
+  };
+
+  const needsProjectDetection = !cfg.projectContext?.trim();
+  const [info, rawHover, detectedContext] = await Promise.all([
+    wholeFile
+      ? Promise.resolve(null)
+      : selection || diff
+        ? findEnclosingSymbol(doc, selection ?? new vscode.Range(position, position))
+        : findSymbolAtPosition(doc, position, findOpts),
+    selection || wholeFile || diff
+      ? Promise.resolve(undefined)
+      : Promise.resolve(
+          vscode.commands.executeCommand<vscode.Hover | undefined>(
+            "vscode.executeHoverProvider",
+            doc.uri,
+            position
+          )
+        ).catch(() => undefined),
+    needsProjectDetection ? detectProjectContext().catch(() => undefined) : Promise.resolve(undefined),
+  ]);
+
+  if (signal?.aborted) return undefined;
+
+  const { rc, maxTokens, contextWindow } = createRequestContext(
+    doc,
+    cfg,
+    endpoints,
+    cfg.projectContext?.trim() || detectedContext,
+    log
+  );
+  const ready = (request: ExplainRequest): PreparedRequest => ({
+    ok: true,
+    request,
+    rc,
+    maxTokens,
+    contextWindow,
+  });
+
+  if (wholeFile) {
+    const request = await buildFileRequest(rc);
+    return signal?.aborted ? undefined : ready(request);
+  }
+  if (selection) return ready(buildSelectionRequest(rc, selection, info ?? undefined));
+  if (info && diff) {
+    let changes: ExplainRequest | undefined;
+    try {
+      changes = await buildDiffRequest(rc, info);
+    } catch (e) {
+      const message = e instanceof Error ? e.message : String(e);
+      log(`Explain Changes: ${message}`);
+      return {
+        ok: false,
+        status: message,
+        badge: "Error",
+        message: `Cannot read the HEAD version: ${message}`,
+      };
+    }
+    if (signal?.aborted) return undefined;
+    return changes
+      ? ready(changes)
+      : {
+          ok: false,
+          status: "No changes since HEAD",
+          badge: "Ready",
+          message: `${info.name} has not changed since the last commit.`,
+        };
+  }
+  if (info) return ready(buildSymbolRequest(rc, info, rawHover));
+  log("No symbol at cursor");
+  return {
+    ok: false,
+    status: "Place the cursor on a symbol and try again.",
+    badge: "Error",
+    message: "No symbol found at cursor. Place the cursor on a function, class, or variable.",
+  };
+}
+
+async function executeExplain(
+  context: vscode.ExtensionContext,
+  target: ExplainTarget,
+  log: (msg: string) => void,
+  viewProvider: SymfocusViewProvider,
+  options: ExplainOptions
+) {
+  const { doc, position, selection, wholeFile, diff } = target;
+  const ref: TargetRef = { uri: doc.uri, position, selection, wholeFile, diff };
+  lastTarget = ref;
+  thread = undefined;
+  restoredEntry = undefined;
+  resetHistoryCursor();
+
+  const cfg = {
+    ...getSymfocusConfig(doc),
+    ...(options.mode && { explanationMode: options.mode }),
+  };
+  const listedModels = cfg.validateModel
+    ? await getListedModels(getEndpointChain(cfg)[0], cfg.http, log)
+    : undefined;
+  const api = validateApiConfig(cfg, listedModels);
   if (!api.ok) {
     log(`Missing config: ${api.missing.join(", ")}`);
+    const needsKey = api.missing.some((m) => m.startsWith("API key"));
+    viewProvider.post({ type: "setup", needed: true });
     void vscode.window
       .showErrorMessage(
         `Symfocus: Set in Settings: ${api.missing.join(", ")}.`,
-        "Open Settings"
+        "Configure",
+        "Open Settings",
+        ...(needsKey ? ["Set API Key"] : [])
       )
       .then((action) => {
-        if (action === "Open Settings")
+        if (action === "Configure")
+          void vscode.commands.executeCommand("symfocus.configure");
+        else if (action === "Open Settings")
           void vscode.commands.executeCommand(
             "workbench.action.openSettings",
             "symfocus"
           );
+        else if (action === "Set API Key")
+          void vscode.commands.executeCommand("symfocus.setApiKey");
       });
     return;
   }
-  log(`API: ${api.baseUrl} model=${api.model}`);
+  for (const warning of api.warnings) {
+    if (shownWarnings.has(warning)) continue;
+    shownWarnings.add(warning);
+    log(`Warning: ${warning}`);
+    void vscode.window
+      .showWarningMessage(`Symfocus: ${warning}`, "Select Model")
+      .then((action) => {
+        if (action === "Select Model")
+          void vscode.commands.executeCommand("symfocus.selectModel");
+      });
+  }
+  const endpoints = api.endpoints;
+  let answering = endpoints[0];
+  log(
+    `API: ${endpoints
+      .map((e) => `${e.name}=${e.provider} ${e.baseUrl} model=${e.model}`)
+      .join(" -> ")}`
+  );
+  if (cfg.agent.enabled && !supportsTools(endpoints)) {
+    log("Agent mode skipped: a profile in the endpoint chain does not support tools");
+  }
 
   const ourAbort = new AbortController();
   currentAbort = ourAbort;
 
   viewProvider.post({ type: "loading" });
+  viewProvider.post({ type: "historyNav", ...historyNav(context.workspaceState) });
   viewProvider.post({
     type: "status",
     status: "Scanning selection…",
     badge: "Working",
   });
-  void vscode.commands.executeCommand("workbench.view.extension.symfocus");
-  viewProvider.show(false);
+  if (!options.background) {
+    void vscode.commands.executeCommand("workbench.view.extension.symfocus");
+    viewProvider.show(false);
+  }
 
   try {
-    const findOpts = {
-      includeDefinition: cfg.includeDefinition,
-      includeReferences: cfg.includeReferences,
-      refsCap: cfg.referencesCap,
-    };
-
-    const needsProjectDetection = !cfg.projectContext?.trim();
-    const [info, rawHover, detectedContext] = await Promise.all([
-      findSymbolAtPosition(doc, position, findOpts),
-      Promise.resolve(
-        vscode.commands.executeCommand<vscode.Hover | undefined>(
-          "vscode.executeHoverProvider",
-          doc.uri,
-          position
-        )
-      ).catch(() => undefined),
-      needsProjectDetection ? detectProjectContext().catch(() => undefined) : Promise.resolve(undefined),
-    ]);
-
-    if (ourAbort.signal.aborted) return;
-
-    if (!info) {
-      log("No symbol at cursor");
-      viewProvider.post({
-        type: "status",
-        status: "Place the cursor on a symbol and try again.",
-        badge: "Error",
-      });
-      viewProvider.post({
-        type: "error",
-        message:
-          "No symbol found at cursor. Place the cursor on a function, class, or variable.",
-      });
+    const prepared = await prepareRequest(target, cfg, endpoints, log, ourAbort.signal);
+    if (!prepared) return;
+    if (!prepared.ok) {
+      viewProvider.post({ type: "status", status: prepared.status, badge: prepared.badge });
+      viewProvider.post({ type: "error", message: prepared.message });
       return;
     }
-    log(`Symbol: ${info.name} (${getKindLabel(info.kind)})`);
-
-    const workspaceRoot =
-      vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.fsPath ?? "";
-    const relativePath = workspaceRoot
-      ? vscode.workspace.asRelativePath(doc.uri)
-      : doc.uri.fsPath;
-    const displayPath = relativePath || doc.uri.fsPath;
-
-    const importBlock = getImportBlock(doc, info.range.start.line, 20);
-
-    let ideHover: string | undefined;
-    if (rawHover?.contents) {
-      const arr = Array.isArray(rawHover.contents)
-        ? rawHover.contents
-        : [rawHover.contents];
-      const parts = arr.map((x: vscode.MarkedString | vscode.MarkdownString) =>
-        typeof x === "string" ? x : (x as { value?: string }).value ?? ""
-      );
-      const s = parts.join("\n").slice(0, 400).trim();
-      if (s.length > 0) ideHover = s;
-    }
-
-    const projectContext = cfg.projectContext?.trim() || detectedContext;
-    if (projectContext) {
-      log(`Project context: ${projectContext.slice(0, 50)}...`);
-    }
-
-    const userPrompt = buildUserPrompt(
-      relativePath,
-      info.name,
-      getKindLabel(info.kind),
-      doc.languageId,
-      info.source,
-      {
-        importBlock,
-        ideHover,
-        ...(cfg.includeDetail && info.detail != null && { detail: info.detail }),
-        ...(info.containerName != null && { containerName: info.containerName }),
-        ...(info.isDeprecated && { isDeprecated: true }),
-        ...(cfg.includeDefinition && info.definitionLocation != null && {
-          definitionLocation: info.definitionLocation,
-        }),
-        ...(cfg.includeReferences && info.referencesSummary != null && {
-          referencesSummary: info.referencesSummary,
-        }),
-        ...(cfg.includeReferences && info.callerSnippets != null && {
-          callerSnippets: info.callerSnippets,
-        }),
-        line: info.range.start.line + 1,
-        column: info.range.start.character + 1,
-        displayPath,
-        explanationMode: cfg.explanationMode,
-        experienceLevel: cfg.experienceLevel,
-        projectContext,
-      }
+    const { request, rc: requestContext, maxTokens, contextWindow } = prepared;
+    const { systemPrompt, userPrompt, allowedLinks, symbol, preamble } = request;
+    const withPreamble = (markdown: string) => (preamble ? `${preamble}\n\n${markdown}` : markdown);
+    log(
+      `Prompt: ~${estimateTokens(userPrompt)} of ${requestContext.promptTokens - estimateTokens(systemPrompt)} tokens (window ${contextWindow})`
     );
 
-    const allowedLinks = collectAllowedLinks({
-      relativePath,
-      displayPath,
-      symbolRange: info.range,
-      definitionLocation: info.definitionLocation,
-      referencesSummary: info.referencesSummary,
-      callerSnippets: info.callerSnippets,
-    });
-
+    viewProvider.post({ type: "info", symbol });
     viewProvider.post({
-      type: "info",
-      symbol: {
-        name: info.name,
-        kind: getKindLabel(info.kind),
-        location: displayPath,
-        path: doc.uri.fsPath,
-        line: info.range.start.line + 1,
-        col: info.range.start.character + 1,
-        ...(ideHover && { signature: ideHover }),
-      },
+      type: "effective",
+      mode: cfg.explanationMode,
+      level: cfg.experienceLevel,
+      model: endpoints[0].model,
+      overrides: describeOverrides(doc),
     });
+
+    const streamOpts: StreamOpenAIChatOpts = {
+      log,
+      maxTokens,
+      temperature: 0.3,
+      ollama: cfg.ollama,
+      maxAttempts: cfg.retryMaxAttempts,
+      http: cfg.http,
+    };
+    /** Opens the follow-up thread and records the explanation in the history. */
+    const complete = (answer: string, model: string) => {
+      thread = {
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: userPrompt },
+          { role: "assistant", content: answer },
+        ],
+        allowedLinks,
+        endpoints,
+        streamOpts,
+      };
+      viewProvider.post({ type: "followUpReady" });
+      addHistoryEntry(context.workspaceState, {
+        symbol,
+        markdown: withPreamble(answer),
+        model,
+        mode: cfg.explanationMode,
+        createdAt: Date.now(),
+        allowedLinks: [...allowedLinks],
+        target: toHistoryTarget(ref),
+      })
+        .then(() => viewProvider.post({ type: "historyNav", ...historyNav(context.workspaceState) }))
+        .catch((e) => log(`History write failed: ${e instanceof Error ? e.message : String(e)}`));
+    };
+
+    const cacheSettings = getCacheSettings();
+    const key = explanationCacheKey(cfg, endpoints, request);
+    if (cacheSettings.enabled && !options.bypassCache) {
+      const cached = await readCache(context.globalStorageUri, key, cacheSettings);
+      if (ourAbort.signal.aborted) return;
+      if (cached) {
+        log(`Cache hit ${key.slice(0, 12)} (${cached.model})`);
+        const html = await toHtml(withPreamble(cached.markdown), allowedLinks, log);
+        viewProvider.post({ type: "show", html });
+        viewProvider.post({ type: "cached", createdAt: cached.createdAt, model: cached.model });
+        viewProvider.post({
+          type: "status",
+          status: "Explanation ready (cached)",
+          badge: "Ready",
+        });
+        complete(cached.markdown, cached.model);
+        return;
+      }
+    }
+
     viewProvider.post({
       type: "status",
       status: "Composing prompt…",
@@ -314,6 +1355,11 @@ async function executeExplain(
     let isAborted = false;
     let chunkCount = 0;
     let explanationComplete = false;
+    let finishReason: string | undefined;
+    let usage: UsageEntry | undefined;
+    let reasoning = "";
+    let reasoningDone = false;
+    let reasoningTimer: NodeJS.Timeout | undefined;
     let renderTimer: NodeJS.Timeout | undefined;
     let pendingRender = false;
 
@@ -324,14 +1370,10 @@ async function executeExplain(
         renderTimer = undefined;
         if (!pendingRender) return;
         pendingRender = false;
-        try {
-          const html = await renderMarkdown(accumulator, { allowedLinks });
-          viewProvider.post({ type: "show", html });
-        } catch (e) {
-          log(`renderMarkdown error: ${e instanceof Error ? e.message : String(e)}`);
-          const html = `<p>${accumulator.replace(/</g, "&lt;").replace(/>/g, "&gt;")}</p>`;
-          viewProvider.post({ type: "show", html });
-        }
+        viewProvider.post({
+          type: "show",
+          html: await toHtml(withPreamble(accumulator), allowedLinks, log),
+        });
       }, 50);
     };
 
@@ -341,38 +1383,63 @@ async function executeExplain(
         renderTimer = undefined;
       }
       if (accumulator.length === 0) return;
-      try {
-        const html = await renderMarkdown(accumulator, { allowedLinks });
-        viewProvider.post({ type: "show", html });
-      } catch (e) {
-        log(`renderMarkdown error: ${e instanceof Error ? e.message : String(e)}`);
-        const html = `<p>${accumulator.replace(/</g, "&lt;").replace(/>/g, "&gt;")}</p>`;
-        viewProvider.post({ type: "show", html });
-      }
+      viewProvider.post({
+        type: "show",
+        html: await toHtml(withPreamble(accumulator), allowedLinks, log),
+      });
     };
 
-    const maxTokens =
-      cfg.explanationMode === "quick"
-        ? 768
-        : cfg.explanationMode === "standard"
-          ? 1536
-          : 2048;
-    for await (const chunk of streamOpenAIChat(
-      api.baseUrl,
-      api.apiKey,
-      api.model,
-      [
-        { role: "system", content: SYSTEM_PROMPT },
-        { role: "user", content: userPrompt },
-      ],
-      ourAbort.signal,
-      {
-        log,
-        maxTokens,
-        temperature: 0.3,
+    const scheduleReasoning = () => {
+      if (reasoningTimer) return;
+      reasoningTimer = setTimeout(() => {
+        reasoningTimer = undefined;
+        if (ourAbort.signal.aborted) return;
+        viewProvider.post({ type: "reasoning", text: reasoning });
+      }, 100);
+    };
+
+    const finishReasoning = () => {
+      if (reasoningDone || reasoning.length === 0) return;
+      reasoningDone = true;
+      if (reasoningTimer) {
+        clearTimeout(reasoningTimer);
+        reasoningTimer = undefined;
       }
-    )) {
-      if (chunk.type === "chunk") {
+      if (ourAbort.signal.aborted) return;
+      viewProvider.post({ type: "reasoning", text: reasoning, done: true });
+    };
+
+    const messages: ChatMessage[] = [
+      { role: "system", content: systemPrompt },
+      { role: "user", content: userPrompt },
+    ];
+    const stream = openExplanationStream(cfg, endpoints, messages, ourAbort.signal, streamOpts, doc.uri);
+
+    for await (const chunk of stream) {
+      if (chunk.type === "tool") {
+        log(`Tool ${chunk.name}: ${chunk.summary}`);
+        for (const loc of chunk.locations) {
+          addAllowedLink(allowedLinks, loc.path, loc.line, loc.endLine);
+          addAllowedLink(allowedLinks, loc.path, loc.line);
+        }
+        viewProvider.post({
+          type: "status",
+          status: `Looking up ${chunk.name}: ${chunk.summary}…`,
+          badge: "Working",
+        });
+      } else if (chunk.type === "reasoning") {
+        if (!cfg.showReasoning) continue;
+        if (reasoning.length === 0) {
+          viewProvider.post({
+            type: "status",
+            status: "Thinking…",
+            badge: "Working",
+          });
+        }
+        reasoning += chunk.content;
+        scheduleReasoning();
+      } else if (chunk.type === "chunk") {
+        finishReasoning();
         chunkCount++;
         if (chunkCount === 1) {
           viewProvider.post({
@@ -381,11 +1448,43 @@ async function executeExplain(
             badge: "Working",
           });
         }
+        if (chunkCount === 1 && (cfg.profiles.length > 0 || answering !== endpoints[0])) {
+          viewProvider.post({
+            type: "profile",
+            name: answering.name,
+            model: answering.model,
+          });
+        }
         accumulator += chunk.content;
         scheduleRender();
+      } else if (chunk.type === "usage") {
+        // Agent mode reports usage once per round; sum them.
+        const promptTokens = (usage?.promptTokens ?? 0) + chunk.promptTokens;
+        const completionTokens = (usage?.completionTokens ?? 0) + chunk.completionTokens;
+        usage = {
+          model: answering.model,
+          promptTokens,
+          completionTokens,
+          cost: estimateCost(answering.model, promptTokens, completionTokens),
+        };
+      } else if (chunk.type === "failover") {
+        answering = endpoints.find((e) => e.name === chunk.to) ?? answering;
+        viewProvider.post({
+          type: "status",
+          status: `${chunk.from} failed, trying ${chunk.to}…`,
+          badge: "Working",
+        });
+      } else if (chunk.type === "retry") {
+        viewProvider.post({
+          type: "status",
+          status: `${chunk.reason}, retrying in ${Math.ceil(chunk.remainingMs / 1000)}s (attempt ${chunk.attempt}/${chunk.maxAttempts})…`,
+          badge: "Wait",
+        });
       } else if (chunk.type === "done") {
-        log(`Done. ${chunkCount} chunks, ${accumulator.length} chars`);
+        finishReasoning();
+        log(`Done. ${chunkCount} chunks, ${accumulator.length} chars${chunk.finishReason ? `, finish=${chunk.finishReason}` : ""}`);
         explanationComplete = accumulator.length > 0;
+        finishReason = chunk.finishReason;
         await finalRender();
         if (!explanationComplete) {
           log("No content in model response");
@@ -399,6 +1498,7 @@ async function executeExplain(
         }
         break;
       } else if (chunk.type === "error") {
+        finishReasoning();
         log(`Error: ${chunk.message}${chunk.aborted ? " (aborted)" : ""}`);
         isAborted = chunk.aborted ?? false;
         if (!isAborted) {
@@ -417,9 +1517,40 @@ async function executeExplain(
     if (!isAborted && explanationComplete) {
       viewProvider.post({
         type: "status",
-        status: "Explanation ready",
+        status:
+          finishReason === "length"
+            ? "Explanation truncated (token limit reached)"
+            : "Explanation ready",
         badge: "Ready",
       });
+      complete(accumulator, answering.model);
+    }
+
+    if (
+      cacheSettings.enabled &&
+      !isAborted &&
+      explanationComplete &&
+      finishReason !== "length"
+    ) {
+      const workspace = vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.toString() ?? "";
+      writeCache(
+        context.globalStorageUri,
+        {
+          key,
+          createdAt: Date.now(),
+          model: answering.model,
+          mode: cfg.explanationMode,
+          workspace,
+          markdown: accumulator,
+        },
+        cacheSettings
+      ).catch((e) => log(`Cache write failed: ${e instanceof Error ? e.message : String(e)}`));
+    }
+
+    if (usage) {
+      log(`Usage: ${formatUsage(usage)}`);
+      viewProvider.post({ type: "usage", text: formatUsage(usage) });
+      await recordUsage(context.globalState, usage);
     }
 
   } catch (e) {
@@ -432,3 +1563,255 @@ async function executeExplain(
     }
   }
 }
+
+/**
+ * Claims the next request slot: waits until MIN_REQUEST_INTERVAL_MS after the
+ * last request (interactive or batch), so parallel callers still start apart.
+ */
+async function waitForRequestSlot(signal: AbortSignal): Promise<void> {
+  const wait = Math.max(0, lastRequestTime + MIN_REQUEST_INTERVAL_MS - Date.now());
+  lastRequestTime = Date.now() + wait;
+  if (wait === 0 || signal.aborted) return;
+  await new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, wait);
+    signal.addEventListener(
+      "abort",
+      () => {
+        clearTimeout(timer);
+        resolve();
+      },
+      { once: true }
+    );
+  });
+}
+
+function headlessStreamOpts(cfg: SymfocusConfig, log: (msg: string) => void): StreamOpenAIChatOpts {
+  return {
+    log,
+    temperature: 0.3,
+    ollama: cfg.ollama,
+    maxAttempts: cfg.retryMaxAttempts,
+    http: cfg.http,
+  };
+}
+
+/**
+ * Runs one request without the view: waits for a request slot, collects the text
+ * and records usage. The stream is lazy, so nothing is sent before the slot. Undefined when cancelled; throws when the request fails.
+ * `onTool` sees the locations agent-mode tool calls looked at.
+ */
+async function completeHeadless(
+  context: vscode.ExtensionContext,
+  endpoints: EndpointProfile[],
+  stream: ReturnType<typeof openExplanationStream>,
+  signal: AbortSignal,
+  onTool?: (loc: { path: string; line: number; endLine?: number }) => void
+): Promise<{ text: string; model: string; finishReason?: string } | undefined> {
+  await waitForRequestSlot(signal);
+  if (signal.aborted) return undefined;
+
+  let answering = endpoints[0];
+  let text = "";
+  let finishReason: string | undefined;
+  let usage: UsageEntry | undefined;
+  try {
+    for await (const chunk of stream) {
+      if (chunk.type === "tool") {
+        for (const loc of chunk.locations) onTool?.(loc);
+      } else if (chunk.type === "chunk") {
+        text += chunk.content;
+      } else if (chunk.type === "usage") {
+        const promptTokens = (usage?.promptTokens ?? 0) + chunk.promptTokens;
+        const completionTokens = (usage?.completionTokens ?? 0) + chunk.completionTokens;
+        usage = {
+          model: answering.model,
+          promptTokens,
+          completionTokens,
+          cost: estimateCost(answering.model, promptTokens, completionTokens),
+        };
+      } else if (chunk.type === "failover") {
+        answering = endpoints.find((e) => e.name === chunk.to) ?? answering;
+      } else if (chunk.type === "done") {
+        finishReason = chunk.finishReason;
+        break;
+      } else if (chunk.type === "error") {
+        if (chunk.aborted) return undefined;
+        throw new Error(chunk.message);
+      }
+    }
+  } finally {
+    lastRequestTime = Date.now();
+    if (usage) await recordUsage(context.globalState, usage);
+  }
+  return { text, model: answering.model, finishReason };
+}
+
+/** Symbol (with definition and references per settings) and IDE hover at `position`. */
+function resolveSymbol(doc: vscode.TextDocument, position: vscode.Position, cfg: SymfocusConfig) {
+  return Promise.all([
+    findSymbolAtPosition(doc, position, {
+      includeDefinition: cfg.includeDefinition,
+      includeReferences: cfg.includeReferences,
+      refsCap: cfg.referencesCap,
+    }),
+    Promise.resolve(
+      vscode.commands.executeCommand<vscode.Hover | undefined>(
+        "vscode.executeHoverProvider",
+        doc.uri,
+        position
+      )
+    ).catch(() => undefined),
+  ]);
+}
+
+export type GenerateExplanationRun = {
+  cfg: SymfocusConfig;
+  /** Validated endpoint chain, from `validateApiConfig`. */
+  endpoints: EndpointProfile[];
+  projectContext?: string;
+  signal: AbortSignal;
+  log: (msg: string) => void;
+};
+
+/** A finished explanation from `generateExplanation`. */
+export type GeneratedExplanation = {
+  markdown: string;
+  model: string;
+  symbol: HistoryEntry["symbol"];
+  /** `path:line` link targets the markdown may use, as in the view. */
+  allowedLinks: Set<string>;
+  cached: boolean;
+};
+
+/**
+ * The explain pipeline without the view, for batch work: same prompt, cache and
+ * usage tracking as **Explain Symbol**, and it honors the request rate limit.
+ * Undefined when there is no symbol at `position` or the run was cancelled;
+ * throws when the model request fails.
+ */
+export async function generateExplanation(
+  context: vscode.ExtensionContext,
+  doc: vscode.TextDocument,
+  position: vscode.Position,
+  run: GenerateExplanationRun
+): Promise<GeneratedExplanation | undefined> {
+  const { cfg, endpoints, signal, log } = run;
+  const [info, rawHover] = await resolveSymbol(doc, position, cfg);
+  if (!info || signal.aborted) return undefined;
+
+  const { rc, maxTokens } = createRequestContext(doc, cfg, endpoints, run.projectContext, log);
+  const request = buildSymbolRequest(rc, info, rawHover);
+  const { allowedLinks, symbol } = request;
+
+  const cacheSettings = getCacheSettings();
+  const key = explanationCacheKey(cfg, endpoints, request);
+  if (cacheSettings.enabled) {
+    const cached = await readCache(context.globalStorageUri, key, cacheSettings);
+    if (cached) {
+      return { markdown: cached.markdown, model: cached.model, symbol, allowedLinks, cached: true };
+    }
+  }
+
+  const completion = await completeHeadless(
+    context,
+    endpoints,
+    openExplanationStream(
+      cfg,
+      endpoints,
+      [
+        { role: "system", content: request.systemPrompt },
+        { role: "user", content: request.userPrompt },
+      ],
+      signal,
+      { ...headlessStreamOpts(cfg, log), maxTokens },
+      doc.uri
+    ),
+    signal,
+    (loc) => addAllowedLink(allowedLinks, loc.path, loc.line, loc.endLine)
+  );
+  if (!completion) return undefined;
+  const { text: markdown, model, finishReason } = completion;
+
+  if (!markdown) throw new Error("No explanation was generated.");
+  if (cacheSettings.enabled && finishReason !== "length") {
+    writeCache(
+      context.globalStorageUri,
+      {
+        key,
+        createdAt: Date.now(),
+        model,
+        mode: cfg.explanationMode,
+        workspace: vscode.workspace.getWorkspaceFolder(doc.uri)?.uri.toString() ?? "",
+        markdown,
+      },
+      cacheSettings
+    ).catch((e) => log(`Cache write failed: ${e instanceof Error ? e.message : String(e)}`));
+  }
+  return { markdown, model, symbol, allowedLinks, cached: false };
+}
+
+/** Reply from `generateDocComment`: the model's text and the symbol it documents. */
+export type GeneratedDocComment = {
+  text: string;
+  model: string;
+  symbol: SymbolInfo;
+  truncated: boolean;
+};
+
+/**
+ * Asks for a doc comment in `style` (a convention description such as "JSDoc
+ * block comment"), with the same symbol context as an explanation. Undefined
+ * when there is no symbol at `position` or the run was cancelled; throws when the
+ * request fails. Doc comments are not cached.
+ */
+export async function generateDocComment(
+  context: vscode.ExtensionContext,
+  doc: vscode.TextDocument,
+  position: vscode.Position,
+  style: string,
+  run: GenerateExplanationRun
+): Promise<GeneratedDocComment | undefined> {
+  const { cfg, endpoints, signal, log } = run;
+  const [info, rawHover] = await resolveSymbol(doc, position, cfg);
+  if (!info || signal.aborted) return undefined;
+  log(`Doc comment: ${info.name} (${getKindLabel(info.kind)})`);
+
+  const { rc } = createRequestContext(doc, cfg, endpoints, run.projectContext, log);
+  const userPrompt = buildDocCommentPrompt(
+    rc.relativePath,
+    info.name,
+    getKindLabel(info.kind),
+    doc.languageId,
+    info.source,
+    style,
+    {
+      ...symbolPromptOptions(rc, info, hoverText(rawHover)),
+      // Quick mode would cut the source the comment has to describe.
+      explanationMode: "standard",
+      tokenBudget: rc.promptTokens - estimateTokens(DOC_COMMENT_SYSTEM_PROMPT),
+    }
+  );
+
+  const completion = await completeHeadless(
+    context,
+    endpoints,
+    streamWithFailover(
+      endpoints,
+      [
+        { role: "system", content: DOC_COMMENT_SYSTEM_PROMPT },
+        { role: "user", content: userPrompt },
+      ],
+      signal,
+      { ...headlessStreamOpts(cfg, log), maxTokens: 1024, temperature: 0.2 }
+    ),
+    signal
+  );
+  if (!completion) return undefined;
+  if (!completion.text.trim()) throw new Error("The model returned no doc comment.");
+  return {
+    text: completion.text,
+    model: completion.model,
+    symbol: info,
+    truncated: completion.finishReason === "length",
+  };
+}
@@ -0,0 +1,198 @@
+import * as vscode from "vscode";
+import { createHash } from "crypto";
+
+export type CacheEntry = {
+  key: string;
+  createdAt: number;
+  /** Model that produced the markdown (may differ from the key's model after failover). */
+  model: string;
+  mode: string;
+  /** Workspace folder URI the symbol belonged to; "" outside any folder. */
+  workspace: string;
+  markdown: string;
+};
+
+export type CacheSettings = {
+  enabled: boolean;
+  ttlMs: number;
+  maxBytes: number;
+};
+
+const CACHE_DIR = "explanations";
+
+export function getCacheSettings(): CacheSettings {
+  const cfg = vscode.workspace.getConfiguration();
+  return {
+    enabled: cfg.get<boolean>("symfocus.cache.enabled") ?? true,
+    ttlMs: Math.max(0, cfg.get<number>("symfocus.cache.ttlDays") ?? 7) * 86_400_000,
+    maxBytes: Math.max(0, cfg.get<number>("symfocus.cache.maxSizeMB") ?? 20) * 1_048_576,
+  };
+}
+
+/**
+ * Hash of everything that shapes the answer. Any change to the symbol's source or
+ * surrounding context changes the user prompt, so stale entries are never hit.
+ */
+export function cacheKey(parts: {
+  model: string;
+  systemPrompt: string;
+  userPrompt: string;
+  mode: string;
+}): string {
+  return createHash("sha256")
+    .update(JSON.stringify([parts.model, parts.systemPrompt, parts.userPrompt, parts.mode]))
+    .digest("hex");
+}
+
+function cacheDir(storageUri: vscode.Uri): vscode.Uri {
+  return vscode.Uri.joinPath(storageUri, CACHE_DIR);
+}
+
+function entryUri(storageUri: vscode.Uri, key: string): vscode.Uri {
+  return vscode.Uri.joinPath(cacheDir(storageUri), `${key}.json`);
+}
+
+async function readEntry(uri: vscode.Uri): Promise<CacheEntry | undefined> {
+  try {
+    const raw = await vscode.workspace.fs.readFile(uri);
+    return JSON.parse(new TextDecoder().decode(raw)) as CacheEntry;
+  } catch {
+    return undefined;
+  }
+}
+
+/** Returns the entry for `key` unless it is missing, unreadable or older than the TTL. */
+export async function readCache(
+  storageUri: vscode.Uri,
+  key: string,
+  settings: CacheSettings
+): Promise<CacheEntry | undefined> {
+  const entry = await readEntry(entryUri(storageUri, key));
+  if (!entry || typeof entry.markdown !== "string") return undefined;
+  if (settings.ttlMs > 0 && Date.now() - entry.createdAt > settings.ttlMs) {
+    return undefined;
+  }
+  return entry;
+}
+
+/**
+ * Drops expired entries, then the oldest ones until the directory fits in
+ * `maxBytes`. Errors are swallowed; a failed prune just leaves extra files.
+ */
+async function prune(storageUri: vscode.Uri, settings: CacheSettings): Promise<void> {
+  const dir = cacheDir(storageUri);
+  let names: [string, vscode.FileType][];
+  try {
+    names = await vscode.workspace.fs.readDirectory(dir);
+  } catch {
+    return;
+  }
+
+  const now = Date.now();
+  const files: { uri: vscode.Uri; size: number; mtime: number }[] = [];
+  for (const [name, type] of names) {
+    if (type !== vscode.FileType.File || !name.endsWith(".json")) continue;
+    const uri = vscode.Uri.joinPath(dir, name);
+    try {
+      const stat = await vscode.workspace.fs.stat(uri);
+      if (settings.ttlMs > 0 && now - stat.mtime > settings.ttlMs) {
+        await vscode.workspace.fs.delete(uri);
+        continue;
+      }
+      files.push({ uri, size: stat.size, mtime: stat.mtime });
+    } catch {
+      // ignore entries removed concurrently
+    }
+  }
+
+  let total = files.reduce((sum, f) => sum + f.size, 0);
+  files.sort((a, b) => a.mtime - b.mtime);
+  for (const f of files) {
+    if (total <= settings.maxBytes) break;
+    try {
+      await vscode.workspace.fs.delete(f.uri);
+      total -= f.size;
+    } catch {
+      // ignore
+    }
+  }
+}
+
+export async function writeCache(
+  storageUri: vscode.Uri,
+  entry: CacheEntry,
+  settings: CacheSettings
+): Promise<void> {
+  await vscode.workspace.fs.createDirectory(cacheDir(storageUri));
+  await vscode.workspace.fs.writeFile(
+    entryUri(storageUri, entry.key),
+    new TextEncoder().encode(JSON.stringify(entry))
+  );
+  await prune(storageUri, settings);
+}
+
+/**
+ * Deletes cached explanations. With `workspaces`, only entries recorded for those
+ * workspace folder URIs; otherwise everything. Returns the number removed.
+ */
+async function clearCache(
+  storageUri: vscode.Uri,
+  workspaces?: string[]
+): Promise<number> {
+  const dir = cacheDir(storageUri);
+  if (!workspaces) {
+    let count = 0;
+    try {
+      count = (await vscode.workspace.fs.readDirectory(dir)).length;
+      await vscode.workspace.fs.delete(dir, { recursive: true });
+    } catch {
+      // nothing cached yet
+    }
+    return count;
+  }
+
+  let names: [string, vscode.FileType][];
+  try {
+    names = await vscode.workspace.fs.readDirectory(dir);
+  } catch {
+    return 0;
+  }
+  let count = 0;
+  for (const [name] of names) {
+    const uri = vscode.Uri.joinPath(dir, name);
+    const entry = await readEntry(uri);
+    if (entry && workspaces.includes(entry.workspace)) {
+      try {
+        await vscode.workspace.fs.delete(uri);
+        count++;
+      } catch {
+        // ignore
+      }
+    }
+  }
+  return count;
+}
+
+export function registerCacheCommands(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.clearCacheWorkspace", async () => {
+      const folders = (vscode.workspace.workspaceFolders ?? []).map((f) =>
+        f.uri.toString()
+      );
+      if (folders.length === 0) {
+        void vscode.window.showInformationMessage("Symfocus: No workspace folder is open.");
+        return;
+      }
+      const n = await clearCache(context.globalStorageUri, folders);
+      void vscode.window.showInformationMessage(
+        `Symfocus: Removed ${n} cached explanation${n === 1 ? "" : "s"} for this workspace.`
+      );
+    }),
+    vscode.commands.registerCommand("symfocus.clearCacheAll", async () => {
+      const n = await clearCache(context.globalStorageUri);
+      void vscode.window.showInformationMessage(
+        `Symfocus: Removed ${n} cached explanation${n === 1 ? "" : "s"}.`
+      );
+    })
+  );
+}
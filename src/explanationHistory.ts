@@ -0,0 +1,131 @@
+import * as vscode from "vscode";
+
+/** A completed explanation, enough to show it again without calling the model. */
+export type HistoryEntry = {
+  symbol: {
+    name: string;
+    kind: string;
+    location: string;
+    path: string;
+    line?: number;
+    col?: number;
+    signature?: string;
+  };
+  markdown: string;
+  model: string;
+  mode: string;
+  createdAt: number;
+  /** `path:line` links the explanation may open, from `collectAllowedLinks`. */
+  allowedLinks: string[];
+  /**
+   * What was explained, so regenerate and follow-ups re-run the same request.
+   * Positions are 0-based; missing in entries saved by older versions.
+   */
+  target?: {
+    uri: string;
+    line: number;
+    character: number;
+    /** Start line, start character, end line and end character of the selection. */
+    selection?: [number, number, number, number];
+    wholeFile?: boolean;
+    diff?: boolean;
+  };
+};
+
+const HISTORY_KEY = "symfocus.history";
+const MAX_ENTRIES = 50;
+
+/** Index of the entry on screen; undefined while a live explanation is shown. */
+let cursor: number | undefined;
+
+function getHistory(state: vscode.Memento): HistoryEntry[] {
+  return state.get<HistoryEntry[]>(HISTORY_KEY) ?? [];
+}
+
+/**
+ * Appends `entry` (oldest first, capped at MAX_ENTRIES) and points the cursor at
+ * it. Showing the same symbol with the same text again does not add a duplicate.
+ */
+export async function addHistoryEntry(state: vscode.Memento, entry: HistoryEntry): Promise<void> {
+  const entries = getHistory(state);
+  const last = entries[entries.length - 1];
+  if (
+    last &&
+    last.symbol.path === entry.symbol.path &&
+    last.symbol.name === entry.symbol.name &&
+    last.markdown === entry.markdown
+  ) {
+    cursor = entries.length - 1;
+    return;
+  }
+  const next = [...entries, entry].slice(-MAX_ENTRIES);
+  await state.update(HISTORY_KEY, next);
+  cursor = next.length - 1;
+}
+
+/** Called when a new explanation starts, so Back returns to the latest entry. */
+export function resetHistoryCursor(): void {
+  cursor = undefined;
+}
+
+export function historyNav(state: vscode.Memento): { canBack: boolean; canForward: boolean } {
+  const length = getHistory(state).length;
+  return {
+    canBack: (cursor ?? length) > 0,
+    canForward: cursor != null && cursor < length - 1,
+  };
+}
+
+/** Moves the cursor by `delta` and returns the entry there, or undefined at either end. */
+export function stepHistory(state: vscode.Memento, delta: -1 | 1): HistoryEntry | undefined {
+  const entries = getHistory(state);
+  const target = (cursor ?? entries.length) + delta;
+  if (target < 0 || target >= entries.length) return undefined;
+  cursor = target;
+  return entries[target];
+}
+
+function formatAge(ts: number): string {
+  const mins = Math.round((Date.now() - ts) / 60_000);
+  if (mins < 1) return "just now";
+  if (mins < 60) return `${mins}m ago`;
+  const hours = Math.round(mins / 60);
+  if (hours < 48) return `${hours}h ago`;
+  return `${Math.round(hours / 24)}d ago`;
+}
+
+/** First line of prose, for searching and telling entries apart. */
+function summaryOf(markdown: string): string {
+  const line = markdown
+    .split("\n")
+    .map((l) => l.replace(/^[#>*\-\s]+|\*\*/g, "").trim())
+    .find((l) => l.length > 0 && !/^summary:?$/i.test(l));
+  return (line ?? "").replace(/^Summary:?\s*/i, "").slice(0, 120);
+}
+
+/** Searchable quick pick over the history, newest first. Moves the cursor to the pick. */
+export async function pickHistoryEntry(state: vscode.Memento): Promise<HistoryEntry | undefined> {
+  const entries = getHistory(state);
+  if (entries.length === 0) {
+    void vscode.window.showInformationMessage("Symfocus: No explanations in this workspace's history yet.");
+    return undefined;
+  }
+  const picked = await vscode.window.showQuickPick(
+    entries
+      .map((e, index) => ({
+        label: e.symbol.name,
+        description: `${e.symbol.kind} · ${e.symbol.location}${e.symbol.line ? `:${e.symbol.line}` : ""}`,
+        detail: `${formatAge(e.createdAt)} · ${e.model} · ${e.mode} — ${summaryOf(e.markdown)}`,
+        index,
+      }))
+      .reverse(),
+    {
+      placeHolder: "Search past explanations by symbol, file or text",
+      matchOnDescription: true,
+      matchOnDetail: true,
+    }
+  );
+  if (!picked) return undefined;
+  cursor = picked.index;
+  return entries[picked.index];
+}
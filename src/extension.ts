@@ -3,13 +3,25 @@ import { SymfocusViewProvider } from "./symfocusView";
 import { registerExplainCommand } from "./explainCommand";
 import { registerHoverProvider } from "./hoverProvider";
 import { registerOpenFileCommand } from "./openFileCommand";
+import { registerUsageCommand } from "./usageTracker";
+import { registerProfileCommand } from "./profileCommand";
+import { registerCacheCommands } from "./explanationCache";
+import { registerModelCommand } from "./modelList";
+import { initApiKeyStore } from "./apiKeyStore";
+import { registerConfigureCommand } from "./setupWizard";
+import { registerPromptTemplates } from "./promptTemplates";
+import { registerDocGeneratorCommand } from "./docGenerator";
+import { registerDocCommentCommand } from "./docComment";
+import { registerHeadContentProvider } from "./gitHead";
 
-export function activate(context: vscode.ExtensionContext): void {
+export async function activate(context: vscode.ExtensionContext): Promise<void> {
   const out = vscode.window.createOutputChannel("Symfocus");
   context.subscriptions.push(out);
   const log = (msg: string) =>
     out.appendLine(`[${new Date().toISOString()}] ${msg}`);
 
+  await initApiKeyStore(context, log);
+
   const viewProvider = new SymfocusViewProvider(context.extensionUri, context);
 
   context.subscriptions.push(
@@ -22,6 +34,15 @@ export function activate(context: vscode.ExtensionContext): void {
   registerHoverProvider(context);
   registerExplainCommand(context, log, viewProvider);
   registerOpenFileCommand(context);
+  registerUsageCommand(context);
+  registerProfileCommand(context);
+  registerCacheCommands(context);
+  registerModelCommand(context, log);
+  registerConfigureCommand(context, log);
+  registerPromptTemplates(context, log);
+  registerDocGeneratorCommand(context, log);
+  registerDocCommentCommand(context, log);
+  registerHeadContentProvider(context);
 }
 
 export function deactivate(): void {}
@@ -0,0 +1,86 @@
+import { execFile } from "child_process";
+import * as path from "path";
+import * as vscode from "vscode";
+
+const GIT_TIMEOUT_MS = 15_000;
+const MAX_FILE_BYTES = 32 * 1024 * 1024;
+/** Scheme of the read-only HEAD documents `openHeadDocument` returns. */
+const HEAD_SCHEME = "symfocus-head";
+/** How long `openHeadDocument` waits for a reused document to pick up new text. */
+const REFRESH_TIMEOUT_MS = 2000;
+
+/**
+ * The file's text in the HEAD commit, read with the local `git` CLI. Undefined
+ * when HEAD does not contain the file (new, untracked, or no commits yet).
+ * Throws when git is missing or the file is not inside a repository.
+ */
+export function readHeadVersion(fsPath: string): Promise<string | undefined> {
+  return new Promise((resolve, reject) => {
+    execFile(
+      "git",
+      ["show", `HEAD:./${path.basename(fsPath)}`],
+      { cwd: path.dirname(fsPath), encoding: "utf8", maxBuffer: MAX_FILE_BYTES, timeout: GIT_TIMEOUT_MS },
+      (err, stdout, stderr) => {
+        if (!err) {
+          resolve(stdout);
+          return;
+        }
+        if ((err as NodeJS.ErrnoException).code === "ENOENT") {
+          reject(new Error("git was not found on PATH."));
+        } else if (/not a git repository/i.test(stderr)) {
+          reject(new Error("The file is not inside a git repository."));
+        } else if (/does not exist in|exists on disk, but not in|invalid object name|bad revision/i.test(stderr)) {
+          resolve(undefined);
+        } else {
+          reject(new Error(`git show failed: ${stderr.trim() || err.message}`));
+        }
+      }
+    );
+  });
+}
+
+const headTexts = new Map<string, string>();
+const headChanged = new vscode.EventEmitter<vscode.Uri>();
+
+/** Serves the text `openHeadDocument` was last given for each file. */
+export function registerHeadContentProvider(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    headChanged,
+    vscode.workspace.registerTextDocumentContentProvider(HEAD_SCHEME, {
+      onDidChange: headChanged.event,
+      provideTextDocumentContent: (uri) => headTexts.get(uri.toString()) ?? "",
+    })
+  );
+}
+
+/**
+ * A read-only document holding `text` as the HEAD version of `uri`, so symbol
+ * providers can run on it. Each file gets one document, reused across calls, and
+ * it is neither untitled nor dirty.
+ */
+export async function openHeadDocument(
+  uri: vscode.Uri,
+  languageId: string,
+  text: string
+): Promise<vscode.TextDocument> {
+  const headUri = uri.with({ scheme: HEAD_SCHEME, query: "", fragment: "" });
+  const key = headUri.toString();
+  headTexts.set(key, text);
+  const open = vscode.workspace.textDocuments.find((d) => d.uri.toString() === key);
+  if (open && open.getText() !== text) {
+    await new Promise<void>((resolve) => {
+      const done = () => {
+        clearTimeout(timer);
+        sub.dispose();
+        resolve();
+      };
+      const timer = setTimeout(done, REFRESH_TIMEOUT_MS);
+      const sub = vscode.workspace.onDidChangeTextDocument((e) => {
+        if (e.document === open && open.getText() === text) done();
+      });
+      headChanged.fire(headUri);
+    });
+  }
+  const doc = await vscode.workspace.openTextDocument(headUri);
+  return doc.languageId === languageId ? doc : vscode.languages.setTextDocumentLanguage(doc, languageId);
+}
@@ -0,0 +1,158 @@
+import { readFileSync } from "fs";
+import { rootCertificates } from "tls";
+import {
+  Agent,
+  ProxyAgent,
+  fetch as undiciFetch,
+  type Dispatcher,
+  type Response as UndiciResponse,
+} from "undici";
+import type { AuthScheme, HttpSettings } from "./config";
+
+let cached: { key: string; dispatcher: Dispatcher } | undefined;
+
+/** Matches `http.noProxy` entries: exact host, domain suffix (".corp" or "corp"), or "*". */
+function bypassesProxy(url: URL, noProxy: string[]): boolean {
+  const host = url.hostname.toLowerCase();
+  return noProxy.some((raw) => {
+    const entry = raw.trim().toLowerCase().replace(/:\d+$/, "");
+    if (!entry) return false;
+    if (entry === "*") return true;
+    const domain = entry.replace(/^\*?\./, "");
+    return host === domain || host.endsWith("." + domain);
+  });
+}
+
+/** Comma- or space-separated NO_PROXY / no_proxy entries. */
+function envNoProxy(): string[] {
+  return (process.env.NO_PROXY ?? process.env.no_proxy ?? "").split(/[\s,]+/).filter(Boolean);
+}
+
+/**
+ * `http.proxy`, falling back to the HTTPS_PROXY / HTTP_PROXY environment variables.
+ * Hosts in `http.noProxy` or NO_PROXY go direct.
+ */
+function proxyFor(url: URL, http: HttpSettings): string | undefined {
+  const proxy =
+    http.proxy ||
+    (url.protocol === "https:"
+      ? process.env.HTTPS_PROXY ?? process.env.https_proxy
+      : undefined) ||
+    process.env.HTTP_PROXY ||
+    process.env.http_proxy;
+  if (!proxy || bypassesProxy(url, [...http.noProxy, ...envNoProxy()])) return undefined;
+  return proxy;
+}
+
+/**
+ * Builds (and caches) the undici dispatcher for a proxy / CA combination. The CA
+ * bundle is added to Node's root certificates rather than replacing them.
+ */
+function getDispatcher(proxy: string | undefined, http: HttpSettings): Dispatcher {
+  const key = JSON.stringify([proxy, http.caBundlePath, http.proxyStrictSSL]);
+  if (cached?.key === key) return cached.dispatcher;
+
+  const tls = {
+    rejectUnauthorized: http.proxyStrictSSL,
+    ...(http.caBundlePath && {
+      ca: [...rootCertificates, readFileSync(http.caBundlePath, "utf8")],
+    }),
+  };
+  const dispatcher = proxy
+    ? new ProxyAgent({ uri: proxy, requestTls: tls, proxyTls: tls })
+    : new Agent({ connect: tls });
+
+  void cached?.dispatcher.close().catch(() => {});
+  cached = { key, dispatcher };
+  return dispatcher;
+}
+
+/**
+ * undici's Response as the global type, so callers handle one Response shape.
+ * The body is re-streamed because undici's stream type differs from the global one.
+ */
+function toResponse(res: UndiciResponse): Response {
+  const reader = res.body?.getReader();
+  const body =
+    reader &&
+    new ReadableStream<Uint8Array>({
+      async pull(controller) {
+        const { done, value } = await reader.read();
+        if (done) controller.close();
+        else controller.enqueue(value);
+      },
+      cancel(reason) {
+        return reader.cancel(reason);
+      },
+    });
+  return new Response(body, {
+    status: res.status,
+    statusText: res.statusText,
+    headers: [...res.headers],
+  });
+}
+
+/**
+ * `fetch` that honors `http.proxy`, `http.noProxy`, `http.proxyStrictSSL` and
+ * `symfocus.http.caBundlePath`. Uses the global fetch when none of them apply.
+ * A missing or unreadable CA bundle rejects like a network error.
+ */
+export async function httpFetch(
+  url: string,
+  init: RequestInit,
+  http?: HttpSettings
+): Promise<Response> {
+  if (!http) return fetch(url, init);
+  const proxy = proxyFor(new URL(url), http);
+  if (!proxy && !http.caBundlePath && http.proxyStrictSSL) return fetch(url, init);
+
+  let dispatcher: Dispatcher;
+  try {
+    dispatcher = getDispatcher(proxy, http);
+  } catch (e) {
+    const msg = e instanceof Error ? e.message : String(e);
+    throw new Error(`Cannot use CA bundle ${http.caBundlePath}: ${msg}`);
+  }
+  return toResponse(
+    await undiciFetch(url, {
+      ...(init as Parameters<typeof undiciFetch>[1]),
+      dispatcher,
+    })
+  );
+}
+
+/**
+ * Auth header for `scheme`: `Authorization: Bearer`, Azure-style `api-key`,
+ * Anthropic-style `x-api-key`, or nothing. Empty keys send nothing.
+ */
+export function authHeaders(apiKey: string, scheme: AuthScheme): Record<string, string> {
+  if (!apiKey) return {};
+  switch (scheme) {
+    case "bearer":
+      return { Authorization: `Bearer ${apiKey}` };
+    case "api-key":
+      return { "api-key": apiKey };
+    case "x-api-key":
+      return { "x-api-key": apiKey };
+    default:
+      return {};
+  }
+}
+
+/**
+ * Expands `${apiKey}`, `${model}` and `${env:NAME}` in header values. Unknown
+ * placeholders are left as-is; headers that end up empty are dropped.
+ */
+export function expandHeaderTemplates(
+  headers: Record<string, string>,
+  vars: { apiKey: string; model: string }
+): Record<string, string> {
+  const out: Record<string, string> = {};
+  for (const [name, template] of Object.entries(headers)) {
+    const value = template.replace(/\$\{(apiKey|model|env:([A-Za-z_][A-Za-z0-9_]*))\}/g, (_, v, env) =>
+      env ? process.env[env] ?? "" : v === "apiKey" ? vars.apiKey : vars.model
+    );
+    if (value.trim()) out[name] = value;
+  }
+  return out;
+}
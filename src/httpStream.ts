@@ -0,0 +1,141 @@
+import type { StreamResult } from "./llm";
+import { isRetryableStatus, parseRetryAfterMs } from "./retry";
+
+export type RequestSignal = {
+  signal: AbortSignal | undefined;
+  clear: () => void;
+};
+
+/**
+ * Combines the caller's signal with an optional timeout signal. The timeout also
+ * covers the body read, so `clear` must be called once the stream ends.
+ */
+export function createRequestSignal(
+  signal: AbortSignal | undefined,
+  timeoutMs: number
+): RequestSignal {
+  const timeoutController =
+    timeoutMs > 0 ? new AbortController() : undefined;
+  let timeoutId: NodeJS.Timeout | undefined;
+  if (timeoutController) {
+    timeoutId = setTimeout(() => timeoutController.abort(), timeoutMs);
+  }
+
+  const merged =
+    timeoutController && signal
+      ? AbortSignal.any([signal, timeoutController.signal])
+      : timeoutController
+        ? timeoutController.signal
+        : signal;
+
+  return {
+    signal: merged,
+    clear: () => {
+      if (timeoutId !== undefined) {
+        clearTimeout(timeoutId);
+        timeoutId = undefined;
+      }
+    },
+  };
+}
+
+/**
+ * Maps a thrown fetch or read error to an error result; `prefix` names the phase.
+ * Pass `retryable` for failures before any response arrived (connection refused, DNS).
+ */
+export function toErrorResult(
+  e: unknown,
+  prefix: string,
+  retryable = false
+): StreamResult {
+  if (e instanceof Error && e.name === "AbortError") {
+    return { type: "error", message: "Request aborted.", aborted: true };
+  }
+  // fetch wraps TLS and proxy failures as "fetch failed"; the cause says which.
+  const cause = e instanceof Error && e.cause instanceof Error ? e.cause.message : "";
+  const err = (e instanceof Error ? e.message : String(e)) + (cause ? ` (${cause})` : "");
+  return {
+    type: "error",
+    message: `${prefix}: ${err}`,
+    ...(retryable && { retryable: true }),
+  };
+}
+
+/**
+ * Builds the error result for a non-2xx response: status, body detail, and for
+ * 408/429/5xx the retry hint from `Retry-After` or `x-ratelimit-reset-*`.
+ */
+export async function httpErrorResult(res: Response): Promise<StreamResult> {
+  const detail = await readErrorDetail(res);
+  const retryable = isRetryableStatus(res.status);
+  const retryAfterMs = retryable ? parseRetryAfterMs(res.headers) : undefined;
+  return {
+    type: "error",
+    message: `API error (${res.status}): ${detail}`,
+    status: res.status,
+    ...(retryable && { retryable: true }),
+    ...(retryAfterMs != null && { retryAfterMs }),
+  };
+}
+
+/**
+ * Reads `error.message` (or a bare string `error`, as Ollama sends) from a JSON error
+ * body, falling back to raw text or statusText.
+ */
+export async function readErrorDetail(res: Response): Promise<string> {
+  let text: string;
+  try {
+    text = await res.text();
+  } catch {
+    return res.statusText;
+  }
+  try {
+    const j = JSON.parse(text) as { error?: string | { message?: string } };
+    const msg = typeof j?.error === "string" ? j.error : j?.error?.message;
+    if (msg) return msg;
+  } catch {
+    // not JSON; fall through to raw text
+  }
+  return text.trim() || res.statusText;
+}
+
+/**
+ * Yields complete lines from a streamed body. A trailing line without a newline is
+ * yielded when the body ends. Cancels the reader when `signal` aborts so a stalled
+ * server cannot hold the loop open.
+ */
+export async function* readLines(
+  body: ReadableStream<Uint8Array>,
+  signal?: AbortSignal
+): AsyncGenerator<string> {
+  const reader = body.getReader();
+  const abortHandler = () => {
+    try {
+      reader.cancel();
+    } catch {
+      // ignore
+    }
+  };
+  signal?.addEventListener("abort", abortHandler);
+
+  const decoder = new TextDecoder();
+  let buffer = "";
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) {
+        buffer += decoder.decode();
+        if (buffer.length > 0) yield buffer;
+        return;
+      }
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines[lines.length - 1];
+      for (let i = 0; i < lines.length - 1; i++) {
+        yield lines[i];
+      }
+    }
+  } finally {
+    signal?.removeEventListener("abort", abortHandler);
+  }
+}
@@ -0,0 +1,107 @@
+/** Above this many LCS cells the changed middle is shown as removed, then added. */
+const MAX_LCS_CELLS = 4_000_000;
+
+type DiffLine = { op: " " | "-" | "+"; text: string };
+
+function splitLines(text: string): string[] {
+  return text === "" ? [] : text.replace(/\r\n/g, "\n").replace(/\n$/, "").split("\n");
+}
+
+/** Line diff: common prefix and suffix, then a longest common subsequence over the rest. */
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  const out: DiffLine[] = a.slice(0, start).map((text) => ({ op: " ", text }));
+  const midA = a.slice(start, endA);
+  const midB = b.slice(start, endB);
+  const n = midA.length;
+  const m = midB.length;
+  if ((n + 1) * (m + 1) > MAX_LCS_CELLS) {
+    out.push(...midA.map((text): DiffLine => ({ op: "-", text })));
+    out.push(...midB.map((text): DiffLine => ({ op: "+", text })));
+  } else {
+    // lcs[i * w + j]: length of the LCS of midA[i..] and midB[j..].
+    const w = m + 1;
+    const lcs = new Uint32Array((n + 1) * w);
+    for (let i = n - 1; i >= 0; i--) {
+      for (let j = m - 1; j >= 0; j--) {
+        lcs[i * w + j] =
+          midA[i] === midB[j]
+            ? lcs[(i + 1) * w + j + 1] + 1
+            : Math.max(lcs[(i + 1) * w + j], lcs[i * w + j + 1]);
+      }
+    }
+    let i = 0;
+    let j = 0;
+    while (i < n && j < m) {
+      if (midA[i] === midB[j]) {
+        out.push({ op: " ", text: midA[i] });
+        i++;
+        j++;
+      } else if (lcs[(i + 1) * w + j] >= lcs[i * w + j + 1]) {
+        out.push({ op: "-", text: midA[i++] });
+      } else {
+        out.push({ op: "+", text: midB[j++] });
+      }
+    }
+    while (i < n) out.push({ op: "-", text: midA[i++] });
+    while (j < m) out.push({ op: "+", text: midB[j++] });
+  }
+  out.push(...a.slice(endA).map((text): DiffLine => ({ op: " ", text })));
+  return out;
+}
+
+export type UnifiedDiffOptions = {
+  /** 1-based line numbers of the first line of each side, for the hunk headers. */
+  beforeStart?: number;
+  afterStart?: number;
+  /** Unchanged lines kept around each change. */
+  context?: number;
+};
+
+/**
+ * Unified diff (`@@` hunks, no file headers) from `before` to `after`, or "" when
+ * the texts have the same lines. Line endings are normalized first.
+ */
+export function unifiedDiff(before: string, after: string, options: UnifiedDiffOptions = {}): string {
+  const { beforeStart = 1, afterStart = 1, context = 3 } = options;
+  const lines = diffLines(splitLines(before), splitLines(after));
+  if (!lines.some((l) => l.op !== " ")) return "";
+
+  let oldNo = beforeStart;
+  let newNo = afterStart;
+  const numbered = lines.map((l) => {
+    const entry = { ...l, oldNo, newNo };
+    if (l.op !== "+") oldNo++;
+    if (l.op !== "-") newNo++;
+    return entry;
+  });
+
+  const out: string[] = [];
+  let i = 0;
+  while (i < numbered.length) {
+    if (numbered[i].op === " ") {
+      i++;
+      continue;
+    }
+    // Extend the hunk over later changes separated by at most 2 * context lines.
+    let end = i + 1;
+    for (let k = end; k < numbered.length && k - end <= 2 * context; k++) {
+      if (numbered[k].op !== " ") end = k + 1;
+    }
+    const hunk = numbered.slice(Math.max(0, i - context), Math.min(numbered.length, end + context));
+    const oldCount = hunk.filter((l) => l.op !== "+").length;
+    const newCount = hunk.filter((l) => l.op !== "-").length;
+    out.push(`@@ -${hunk[0].oldNo},${oldCount} +${hunk[0].newNo},${newCount} @@`);
+    for (const l of hunk) out.push(`${l.op}${l.text}`);
+    i = Math.min(numbered.length, end + context);
+  }
+  return out.join("\n");
+}
@@ -1,21 +1,183 @@
-export type ChatMessage = { role: "system" | "user" | "assistant"; content: string };
+import type {
+  AuthScheme,
+  AzureSettings,
+  EndpointProfile,
+  HttpSettings,
+  LlmProvider,
+  OllamaSettings,
+} from "./config";
+import { streamAnthropicChat } from "./anthropic";
+import { streamOllamaChat } from "./ollama";
+import { streamOpenAIResponses } from "./openaiResponses";
+import { streamWithRetry } from "./retry";
+import { createRequestSignal, httpErrorResult, readErrorDetail, toErrorResult } from "./httpStream";
+import { authHeaders, expandHeaderTemplates, httpFetch } from "./httpClient";
+
+/** A function call requested by the model, in OpenAI wire format. */
+export type ToolCall = {
+  id: string;
+  type: "function";
+  function: { name: string; arguments: string };
+};
+
+/** A tool advertised to the model, in OpenAI wire format. */
+export type ToolDefinition = {
+  type: "function";
+  function: { name: string; description: string; parameters: Record<string, unknown> };
+};
+
+export type ChatMessage =
+  | { role: "system" | "user" | "assistant"; content: string; tool_calls?: ToolCall[] }
+  | { role: "tool"; content: string; tool_call_id: string };
 
 export type StreamResult =
   | { type: "chunk"; content: string }
-  | { type: "done" }
-  | { type: "error"; message: string; aborted?: boolean };
+  /** Reasoning/thinking text from reasoning models, streamed before (or beside) the answer. */
+  | { type: "reasoning"; content: string }
+  | { type: "done"; finishReason?: string }
+  | {
+      type: "error";
+      message: string;
+      aborted?: boolean;
+      /** HTTP status when the server answered with a non-2xx response. */
+      status?: number;
+      /** Worth retrying: 408/429/5xx, or the request never reached the server. */
+      retryable?: boolean;
+      /** Server-requested wait from Retry-After / x-ratelimit-reset-*. */
+      retryAfterMs?: number;
+    }
+  | { type: "usage"; promptTokens: number; completionTokens: number }
+  /** The model asked for these tools to be run; sent just before `done`. */
+  | { type: "toolCalls"; calls: ToolCall[] }
+  /** `streamWithFailover` moved from profile `from` to profile `to` after `message`. */
+  | { type: "failover"; from: string; to: string; message: string }
+  | {
+      type: "retry";
+      reason: string;
+      /** The attempt about to start (2 for the first retry). */
+      attempt: number;
+      maxAttempts: number;
+      remainingMs: number;
+    };
 
 export type StreamOpenAIChatOpts = {
   timeoutMs?: number;
   log?: (msg: string) => void;
   maxTokens?: number;
   temperature?: number;
+  /** Native Ollama request fields; ignored by other providers. */
+  ollama?: OllamaSettings;
+  /** Azure deployment and api-version; required by the azure provider. */
+  azure?: AzureSettings;
+  /** Total attempts per endpoint, including the first. 1 disables retries. */
+  maxAttempts?: number;
+  /** Extra request headers, merged over the provider's defaults. */
+  headers?: Record<string, string>;
+  /** How the API key is sent; defaults to the provider's native scheme. */
+  authScheme?: AuthScheme;
+  /** Proxy and CA settings; the global fetch is used when omitted. */
+  http?: HttpSettings;
+  /** Tools to advertise; sent by the chat completions and Responses backends. */
+  tools?: ToolDefinition[];
+};
+
+/** One streaming backend. Every provider yields the same `StreamResult` union. */
+type StreamChatFn = (
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  opts?: StreamOpenAIChatOpts
+) => AsyncGenerator<StreamResult>;
+
+/**
+ * Streams from each endpoint in order until one answers, through the backend its
+ * `provider` selects. Failures before the first chunk are retried up to
+ * `opts.maxAttempts` (see `streamWithRetry`), with `retry` events in between.
+ * Moves on when an endpoint fails with a network error or 5xx before any chunk
+ * arrived (after its own retries), yielding a `failover` event first. Other errors, and any error once
+ * content has streamed, end the stream as usual. Each profile's headers (with
+ * templates expanded), auth scheme, timeout and max tokens override `opts`.
+ */
+export async function* streamWithFailover(
+  endpoints: EndpointProfile[],
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  opts?: StreamOpenAIChatOpts
+): AsyncGenerator<StreamResult> {
+  for (let i = 0; i < endpoints.length; i++) {
+    const ep = endpoints[i];
+    const next = endpoints[i + 1];
+    let sawChunk = false;
+    let failedOver = false;
+
+    const epOpts: StreamOpenAIChatOpts = {
+      ...opts,
+      headers: expandHeaderTemplates(
+        { ...opts?.headers, ...ep.headers },
+        { apiKey: ep.apiKey, model: ep.model }
+      ),
+      ...(ep.authScheme && { authScheme: ep.authScheme }),
+      ...(ep.azure && { azure: ep.azure }),
+      ...(ep.timeoutMs > 0 && { timeoutMs: ep.timeoutMs }),
+      ...(ep.maxTokens != null && { maxTokens: ep.maxTokens }),
+    };
+
+    for await (const result of streamWithRetry(
+      () => PROVIDERS[ep.provider](ep.baseUrl, ep.apiKey, ep.model, messages, signal, epOpts),
+      Math.max(1, opts?.maxAttempts ?? 1),
+      signal,
+      opts?.log
+    )) {
+      if (
+        result.type === "error" &&
+        next &&
+        !sawChunk &&
+        !result.aborted &&
+        result.retryable &&
+        (result.status == null || result.status >= 500)
+      ) {
+        opts?.log?.(`failover ${ep.name} -> ${next.name}: ${result.message}`);
+        yield { type: "failover", from: ep.name, to: next.name, message: result.message };
+        failedOver = true;
+        break;
+      }
+      if (result.type === "chunk") sawChunk = true;
+      yield result;
+    }
+
+    if (!failedOver) return;
+  }
+}
+
+type OpenAIUsage = { prompt_tokens?: number; completion_tokens?: number };
+
+type OpenAIToolCallDelta = {
+  index?: number;
+  id?: string;
+  function?: { name?: string; arguments?: string };
 };
 
+function toUsageResult(usage: OpenAIUsage): StreamResult {
+  return {
+    type: "usage",
+    promptTokens: usage.prompt_tokens ?? 0,
+    completionTokens: usage.completion_tokens ?? 0,
+  };
+}
+
+/** Chat completions URLs whose server rejected `stream_options` with a 400. */
+const noStreamOptions = new Set<string>();
+
 /**
  * Streams a chat completion from an OpenAI-compatible endpoint using Server-Sent Events.
- * Yields chunks as they arrive, allowing for progressive rendering.
+ * Yields chunks as they arrive, allowing for progressive rendering. Requests
+ * `stream_options.include_usage`, so the final usage block arrives as a `usage` result;
+ * strict servers that reject the field with a 400 are retried once without it, and
+ * the URL is remembered. `done` carries the last `finish_reason` ("length" when cut off).
  * baseUrl must not include /chat/completions (e.g. https://your-provider.com/v1).
+ * With `opts.azure`, the URL is the Azure deployment URL instead (see `streamAzureChat`).
  * Combines user signal with an optional timeout signal. The timeout also
  * aborts the body read; if the server never sends or closes, we yield "Request aborted."
  */
@@ -30,60 +192,59 @@ export async function* streamOpenAIChat(
   const timeoutMs = opts?.timeoutMs ?? 0;
   const log = opts?.log ?? (() => {});
 
-  const url = baseUrl.replace(/\/$/, "") + "/chat/completions";
+  const url = opts?.azure
+    ? azureChatCompletionsUrl(baseUrl, opts.azure)
+    : baseUrl.replace(/\/$/, "") + "/chat/completions";
 
-  const timeoutController =
-    timeoutMs > 0 ? new AbortController() : undefined;
-  let timeoutId: NodeJS.Timeout | undefined;
-  if (timeoutController) {
-    timeoutId = setTimeout(() => timeoutController.abort(), timeoutMs);
-  }
+  const { signal: mergedSignal, clear: clearTimer } = createRequestSignal(
+    signal,
+    timeoutMs
+  );
 
-  const mergedSignal =
-    timeoutController && signal
-      ? AbortSignal.any([signal, timeoutController.signal])
-      : timeoutController
-        ? timeoutController.signal
-        : signal;
-
-  const clearTimer = () => {
-    if (timeoutId !== undefined) {
-      clearTimeout(timeoutId);
-      timeoutId = undefined;
-    }
-  };
+  const send = (includeUsage: boolean) =>
+    httpFetch(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(apiKey, opts?.authScheme ?? "bearer"),
+          ...opts?.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          ...(includeUsage && { stream_options: { include_usage: true } }),
+          ...(opts?.tools && opts.tools.length > 0 && { tools: opts.tools }),
+          ...(opts?.maxTokens != null && { max_tokens: opts.maxTokens }),
+          ...(opts?.temperature != null && { temperature: opts.temperature }),
+        }),
+        signal: mergedSignal,
+      },
+      opts?.http
+    );
 
   log("fetch start");
   let res: Response;
   try {
-    res = await fetch(url, {
-      method: "POST",
-      headers: {
-        "Content-Type": "application/json",
-        Authorization: `Bearer ${apiKey}`,
-      },
-      body: JSON.stringify({
-        model,
-        messages,
-        stream: true,
-        ...(opts?.maxTokens != null && { max_tokens: opts.maxTokens }),
-        ...(opts?.temperature != null && { temperature: opts.temperature }),
-      }),
-      signal: mergedSignal,
-    });
+    const includeUsage = !noStreamOptions.has(url);
+    res = await send(includeUsage);
+    if (res.status === 400 && includeUsage) {
+      const detail = await readErrorDetail(res);
+      if (!/stream_options|include_usage/i.test(detail)) {
+        clearTimer();
+        yield { type: "error", message: `API error (400): ${detail}`, status: 400 };
+        return;
+      }
+      log(`stream_options rejected, retrying without: ${detail.slice(0, 120)}`);
+      noStreamOptions.add(url);
+      res = await send(false);
+    }
   } catch (e) {
     clearTimer();
     log(`fetch error: ${e instanceof Error ? e.message : String(e)}`);
-    if (e instanceof Error && e.name === "AbortError") {
-      yield {
-        type: "error",
-        message: "Request aborted.",
-        aborted: true,
-      };
-    } else {
-      const err = e instanceof Error ? e.message : String(e);
-      yield { type: "error", message: `Network error: ${err}` };
-    }
+    yield toErrorResult(e, "Network error", true);
     return;
   }
 
@@ -91,21 +252,7 @@ export async function* streamOpenAIChat(
 
   if (!res.ok) {
     clearTimer();
-    let detail = res.statusText;
-    try {
-      const j = (await res.json()) as { error?: { message?: string } };
-      detail = j?.error?.message ?? detail;
-    } catch {
-      try {
-        detail = await res.text();
-      } catch {
-        // ignore text parse errors
-      }
-    }
-    yield {
-      type: "error",
-      message: `API error (${res.status}): ${detail}`,
-    };
+    yield await httpErrorResult(res);
     return;
   }
 
@@ -134,6 +281,28 @@ export async function* streamOpenAIChat(
   let yieldCount = 0;
   let loggedDeltaKeys = false;
   let loggedParseErr = false;
+  let finishReason: string | undefined;
+  // Tool call fragments arrive spread over many deltas, keyed by index.
+  const toolCalls: ToolCall[] = [];
+
+  const addToolCallDelta = (d: OpenAIToolCallDelta) => {
+    const i = d.index ?? 0;
+    const call = (toolCalls[i] ??= {
+      id: "",
+      type: "function",
+      function: { name: "", arguments: "" },
+    });
+    if (d.id) call.id = d.id;
+    if (d.function?.name) call.function.name += d.function.name;
+    if (d.function?.arguments) call.function.arguments += d.function.arguments;
+  };
+
+  const collectedToolCalls = (): StreamResult[] => {
+    const calls = toolCalls.filter((c) => c && c.function.name);
+    if (calls.length === 0) return [];
+    log(`tool calls: ${calls.map((c) => c.function.name).join(",")}`);
+    return [{ type: "toolCalls", calls }];
+  };
 
   try {
     while (true) {
@@ -149,10 +318,19 @@ export async function* streamOpenAIChat(
         if (yieldCount === 0 && fallbackBuffer.trim().startsWith("{")) {
           try {
             const data = JSON.parse(fallbackBuffer) as {
-              choices?: Array<{ message?: { content?: string } }>;
+              choices?: Array<{
+                message?: { content?: string; tool_calls?: ToolCall[] };
+                finish_reason?: string | null;
+              }>;
+              usage?: OpenAIUsage;
             };
+            finishReason = data?.choices?.[0]?.finish_reason ?? finishReason;
             const c = data?.choices?.[0]?.message?.content;
             if (typeof c === "string") yield { type: "chunk", content: c };
+            for (const tc of data?.choices?.[0]?.message?.tool_calls ?? []) {
+              toolCalls.push(tc);
+            }
+            if (data?.usage) yield toUsageResult(data.usage);
           } catch {
             // ignore
           }
@@ -162,8 +340,9 @@ export async function* streamOpenAIChat(
             if (remaining.startsWith("data: ")) {
               try {
                 const data = JSON.parse(remaining.slice(6)) as {
-                  choices?: Array<{ delta?: { content?: string } }>;
+                  choices?: Array<{ delta?: { content?: string }; finish_reason?: string | null }>;
                 };
+                finishReason = data?.choices?.[0]?.finish_reason ?? finishReason;
                 const c = data?.choices?.[0]?.delta?.content;
                 if (typeof c === "string") yield { type: "chunk", content: c };
               } catch {
@@ -172,7 +351,8 @@ export async function* streamOpenAIChat(
             }
           }
         }
-        yield { type: "done" };
+        yield* collectedToolCalls();
+        yield { type: "done", ...(finishReason && { finishReason }) };
         return;
       }
 
@@ -192,7 +372,8 @@ export async function* streamOpenAIChat(
 
         if (line === "[DONE]" || line === "data: [DONE]") {
           clearTimer();
-          yield { type: "done" };
+          yield* collectedToolCalls();
+          yield { type: "done", ...(finishReason && { finishReason }) };
           return;
         }
 
@@ -200,15 +381,38 @@ export async function* streamOpenAIChat(
           const json = line.slice(6);
           try {
             const data = JSON.parse(json) as {
-              choices?: Array<{ delta?: Record<string, unknown> & { content?: string } }>;
+              choices?: Array<{
+                delta?: Record<string, unknown> & {
+                  content?: string;
+                  reasoning_content?: string;
+                  reasoning?: string;
+                  tool_calls?: OpenAIToolCallDelta[];
+                };
+                finish_reason?: string | null;
+              }>;
+              usage?: OpenAIUsage | null;
             };
+            // The final choice carries finish_reason; usage-only chunks have no choices.
+            finishReason = data?.choices?.[0]?.finish_reason ?? finishReason;
+            if (data?.usage) {
+              log(`sse usage prompt=${data.usage.prompt_tokens ?? 0} completion=${data.usage.completion_tokens ?? 0}`);
+              yield toUsageResult(data.usage);
+            }
             const delta = data?.choices?.[0]?.delta;
             const content = delta?.content;
+            // vLLM / DeepSeek use reasoning_content; OpenRouter uses reasoning.
+            const reasoning = delta?.reasoning_content ?? delta?.reasoning;
+            if (typeof reasoning === "string" && reasoning.length > 0) {
+              yield { type: "reasoning", content: reasoning };
+            }
+            if (Array.isArray(delta?.tool_calls)) {
+              for (const d of delta.tool_calls) addToolCallDelta(d);
+            }
             if (typeof content === "string") {
               yieldCount++;
               if (yieldCount <= 3) log(`sse yield #${yieldCount} len=${content.length}`);
               yield { type: "chunk", content };
-            } else if (delta && !loggedDeltaKeys) {
+            } else if (delta && reasoning == null && !delta.tool_calls && !loggedDeltaKeys) {
               loggedDeltaKeys = true;
               log(`sse delta keys: ${Object.keys(delta).join(",")}`);
             }
@@ -224,19 +428,47 @@ export async function* streamOpenAIChat(
   } catch (e) {
     clearTimer();
     log(`stream catch: ${e instanceof Error ? e.message : String(e)}`);
-    if (e instanceof Error && e.name === "AbortError") {
-      yield {
-        type: "error",
-        message: "Request aborted.",
-        aborted: true,
-      };
-    } else {
-      const err = e instanceof Error ? e.message : String(e);
-      yield { type: "error", message: `Streaming error: ${err}` };
-    }
+    yield toErrorResult(e, "Streaming error");
   } finally {
     if (mergedSignal) {
       mergedSignal.removeEventListener("abort", abortHandler);
     }
   }
 }
+
+/**
+ * `{resource}/openai/deployments/{deployment}/chat/completions?api-version=...`.
+ * Accepts the resource URL with or without a trailing `/openai`.
+ */
+function azureChatCompletionsUrl(resourceUrl: string, azure: AzureSettings): string {
+  const base = resourceUrl.replace(/\/+$/, "").replace(/\/openai$/, "");
+  return (
+    `${base}/openai/deployments/${encodeURIComponent(azure.deployment)}` +
+    `/chat/completions?api-version=${encodeURIComponent(azure.apiVersion)}`
+  );
+}
+
+/**
+ * Azure OpenAI: the OpenAI chat completions protocol at a deployment URL, with the
+ * key sent as `api-key` unless the profile picks another auth scheme.
+ */
+async function* streamAzureChat(
+  ...[baseUrl, apiKey, model, messages, signal, opts]: Parameters<StreamChatFn>
+): AsyncGenerator<StreamResult> {
+  if (!opts?.azure) {
+    yield { type: "error", message: "Azure deployment and API version are not configured." };
+    return;
+  }
+  yield* streamOpenAIChat(baseUrl, apiKey, model, messages, signal, {
+    ...opts,
+    authScheme: opts.authScheme ?? "api-key",
+  });
+}
+
+const PROVIDERS: Record<LlmProvider, StreamChatFn> = {
+  openai: streamOpenAIChat,
+  "openai-responses": streamOpenAIResponses,
+  anthropic: streamAnthropicChat,
+  ollama: streamOllamaChat,
+  azure: streamAzureChat,
+};
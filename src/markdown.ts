@@ -282,3 +282,41 @@ export async function renderMarkdown(
     return `<p>${escapeHtml(md)}</p>`;
   }
 }
+
+/** A Markdown link, an inline code span, or a naked `path:line` reference. */
+const LINK_OR_REFERENCE =
+  /\[((?:[^\]\\]|\\.|\[[^\]]*\])*)\]\(([^()\s]+)\)|`([^`\n]+)`|(?<![\w./\\@+~:-])([a-zA-Z0-9_./\\@+~-]+\.[a-zA-Z0-9]+:\d+(?:-\d+)?(?::\d+)?)/g;
+const PATH_LINE = /^([^\s:]+\.[a-zA-Z0-9]+):(\d+)(?:-(\d+))?(?::\d+)?$/;
+
+/**
+ * Rewrites `path:line` references for Markdown written to disk (Generate
+ * Documentation): links, backticked and naked references, as the view linkifies
+ * them. `resolve` returns the new href, or undefined to keep only the text. Other
+ * links, other code spans and fenced code blocks are left alone.
+ */
+export function rewriteFileLinks(
+  md: string,
+  resolve: (path: string, line: number, endLine?: number) => string | undefined
+): string {
+  const rewrite = (text: string, target: string): string | undefined => {
+    const m = target.match(PATH_LINE);
+    if (!m) return undefined;
+    const endLine = m[3] ? parseInt(m[3], 10) : undefined;
+    const href = resolve(normalizePath(m[1]), parseInt(m[2], 10), endLine);
+    return href ? `[${text}](${href})` : text;
+  };
+  return md
+    .split(/(```[\w]*\n[\s\S]*?```)/g)
+    .map((segment) => {
+      if (/^```[\w]*\n/.test(segment)) return segment;
+      return segment.replace(
+        LINK_OR_REFERENCE,
+        (full, text?: string, href?: string, code?: string, naked?: string) => {
+          if (href != null) return rewrite(stripWrappedPathLineBrackets(text ?? ""), href) ?? full;
+          if (code != null) return rewrite(full, code) ?? full;
+          return rewrite(naked ?? full, naked ?? full) ?? full;
+        }
+      );
+    })
+    .join("");
+}
@@ -0,0 +1,262 @@
+import * as vscode from "vscode";
+import {
+  getEndpointChain,
+  getSymfocusConfig,
+  targetFor,
+  type EndpointProfile,
+  type HttpSettings,
+} from "./config";
+import { authHeaders, expandHeaderTemplates, httpFetch } from "./httpClient";
+import { createRequestSignal, readErrorDetail } from "./httpStream";
+
+export type ListedModel = {
+  id: string;
+  /** Context window in tokens, when the server reports one. */
+  contextLength?: number;
+};
+
+type ModelEntry = {
+  id?: string;
+  name?: string;
+  display_name?: string;
+  context_length?: number;
+  context_window?: number;
+  max_context_length?: number;
+  max_model_len?: number;
+  top_provider?: { context_length?: number };
+};
+
+const LIST_TIMEOUT_MS = 15_000;
+/** How long `getListedModels` reuses a fetched list. */
+const CACHE_TTL_MS = 10 * 60_000;
+/** How long `getListedModels` remembers a failed fetch, so explains do not wait on it again. */
+const FAILURE_TTL_MS = 5 * 60_000;
+
+/** `models` is undefined when the fetch failed. */
+const listCache = new Map<string, { at: number; models?: ListedModel[] }>();
+
+/** The key servers use for context length varies: OpenRouter, Groq, LM Studio, vLLM. */
+function contextLengthOf(m: ModelEntry): number | undefined {
+  const n =
+    m.context_length ??
+    m.context_window ??
+    m.max_context_length ??
+    m.max_model_len ??
+    m.top_provider?.context_length;
+  return typeof n === "number" && n > 0 ? n : undefined;
+}
+
+/**
+ * Fetches the endpoint's model list: `GET {baseUrl}/models` for OpenAI-compatible
+ * and Anthropic endpoints, `GET {baseUrl}/api/tags` for Ollama. Azure deployments
+ * cannot be listed with an API key, so Azure throws. Sorted by id.
+ */
+export async function fetchModelList(
+  ep: EndpointProfile,
+  http: HttpSettings
+): Promise<ListedModel[]> {
+  if (ep.provider === "azure") {
+    throw new Error("Azure OpenAI deployments cannot be listed; set symfocus.azure.deployment.");
+  }
+  const base = ep.baseUrl.trim().replace(/\/$/, "");
+  const url = ep.provider === "ollama" ? `${base}/api/tags` : `${base}/models`;
+  const { signal, clear } = createRequestSignal(undefined, LIST_TIMEOUT_MS);
+  try {
+    const res = await httpFetch(
+      url,
+      {
+        method: "GET",
+        headers: {
+          ...(ep.provider === "anthropic" && { "anthropic-version": "2023-06-01" }),
+          ...authHeaders(
+            ep.apiKey.trim(),
+            ep.authScheme ?? (ep.provider === "anthropic" ? "x-api-key" : "bearer")
+          ),
+          ...expandHeaderTemplates(ep.headers, { apiKey: ep.apiKey, model: ep.model }),
+        },
+        signal,
+      },
+      http
+    );
+    if (!res.ok) {
+      throw new Error(`API error (${res.status}): ${await readErrorDetail(res)}`);
+    }
+    const body = (await res.json()) as { data?: ModelEntry[]; models?: ModelEntry[] };
+    const entries = (ep.provider === "ollama" ? body.models : body.data) ?? [];
+    return entries
+      .map((m) => ({ id: m.id ?? m.name ?? "", contextLength: contextLengthOf(m) }))
+      .filter((m) => m.id.length > 0)
+      .sort((a, b) => a.id.localeCompare(b.id));
+  } finally {
+    clear();
+  }
+}
+
+/**
+ * Model ids for `ep`, cached for CACHE_TTL_MS. Undefined when the list cannot be
+ * fetched, so callers skip the check instead of failing; failures are cached for
+ * FAILURE_TTL_MS. Ollama's "name:latest"
+ * also matches the bare name.
+ */
+export async function getListedModels(
+  ep: EndpointProfile,
+  http: HttpSettings,
+  log: (msg: string) => void
+): Promise<string[] | undefined> {
+  if (ep.provider === "azure" || !ep.baseUrl.trim()) return undefined;
+  const key = `${ep.provider} ${ep.baseUrl.trim()}`;
+  let entry = listCache.get(key);
+  if (!entry || Date.now() - entry.at > (entry.models ? CACHE_TTL_MS : FAILURE_TTL_MS)) {
+    try {
+      entry = { at: Date.now(), models: await fetchModelList(ep, http) };
+    } catch (e) {
+      log(`Model list unavailable: ${e instanceof Error ? e.message : String(e)}`);
+      entry = { at: Date.now() };
+    }
+    listCache.set(key, entry);
+  }
+  return entry.models?.flatMap((m) =>
+    m.id.endsWith(":latest") ? [m.id, m.id.slice(0, -":latest".length)] : [m.id]
+  );
+}
+
+function formatContext(n: number): string {
+  return n >= 1000 ? `${Math.round(n / 1000)}K context` : `${n} context`;
+}
+
+/**
+ * Writes `model` to the profile it belongs to, or to `symfocus.openai.model`. A
+ * `[language]` value for `doc` is offered first, since it wins over the others.
+ */
+async function saveModel(
+  ep: EndpointProfile,
+  model: string,
+  usesProfiles: boolean,
+  doc: vscode.TextDocument | undefined
+): Promise<boolean> {
+  const config = vscode.workspace.getConfiguration();
+  if (usesProfiles) {
+    const target = targetFor("symfocus.profiles");
+    const inspected = config.inspect<Array<Record<string, unknown>>>("symfocus.profiles");
+    const current =
+      target === vscode.ConfigurationTarget.WorkspaceFolder
+        ? inspected?.workspaceFolderValue
+        : target === vscode.ConfigurationTarget.Workspace
+          ? inspected?.workspaceValue
+          : inspected?.globalValue;
+    if (!current?.some((p) => p?.name === ep.name)) return false;
+    await config.update(
+      "symfocus.profiles",
+      current.map((p) => (p?.name === ep.name ? { ...p, model } : p)),
+      target
+    );
+    return true;
+  }
+
+  const key = "symfocus.openai.model";
+  const scoped = vscode.workspace.getConfiguration(undefined, doc);
+  const inspected = doc && scoped.inspect(key);
+  const languageTarget =
+    inspected?.workspaceFolderLanguageValue !== undefined
+      ? vscode.ConfigurationTarget.WorkspaceFolder
+      : inspected?.workspaceLanguageValue !== undefined
+        ? vscode.ConfigurationTarget.Workspace
+        : inspected?.globalLanguageValue !== undefined
+          ? vscode.ConfigurationTarget.Global
+          : undefined;
+  const lang = `[${doc?.languageId}]`;
+  let target = targetFor(key);
+  let inLanguage = false;
+  if (languageTarget !== undefined || vscode.workspace.workspaceFolders?.length) {
+    const items = [
+      { label: "User Settings", target: vscode.ConfigurationTarget.Global, inLanguage: false },
+      ...(vscode.workspace.workspaceFolders?.length
+        ? [{ label: "Workspace Settings", target: vscode.ConfigurationTarget.Workspace, inLanguage: false }]
+        : []),
+    ].map((i) => ({
+      ...i,
+      description:
+        languageTarget !== undefined
+          ? `${lang} settings override this`
+          : i.target === target
+            ? "current"
+            : undefined,
+    }));
+    const picked = await vscode.window.showQuickPick(
+      languageTarget !== undefined
+        ? [
+            { label: `${lang} Settings`, target: languageTarget, inLanguage: true, description: "current" },
+            ...items,
+          ]
+        : items,
+      { placeHolder: `Save "${model}" to…` }
+    );
+    if (!picked) return false;
+    target = picked.target;
+    inLanguage = picked.inLanguage;
+  }
+  await scoped.update(key, model, target, inLanguage);
+  return true;
+}
+
+export function registerModelCommand(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.selectModel", async () => {
+      const doc = vscode.window.activeTextEditor?.document;
+      const cfg = getSymfocusConfig(doc);
+      const ep = getEndpointChain(cfg)[0];
+      if (!ep.baseUrl.trim()) {
+        void vscode.window.showErrorMessage("Symfocus: Set the endpoint base URL first.");
+        return;
+      }
+
+      let models: ListedModel[];
+      try {
+        models = await vscode.window.withProgress(
+          { location: vscode.ProgressLocation.Notification, title: "Symfocus: Fetching models…" },
+          () => fetchModelList(ep, cfg.http)
+        );
+      } catch (e) {
+        const msg = e instanceof Error ? e.message : String(e);
+        log(`Select model: ${msg}`);
+        void vscode.window.showErrorMessage(`Symfocus: Could not list models: ${msg}`);
+        return;
+      }
+      listCache.set(`${ep.provider} ${ep.baseUrl.trim()}`, { at: Date.now(), models });
+      if (models.length === 0) {
+        void vscode.window.showInformationMessage("Symfocus: The endpoint returned no models.");
+        return;
+      }
+
+      const current = ep.model.trim();
+      const picked = await vscode.window.showQuickPick(
+        models.map((m) => ({
+          label: m.id,
+          description: [
+            m.contextLength != null ? formatContext(m.contextLength) : undefined,
+            m.id === current ? "current" : undefined,
+          ]
+            .filter(Boolean)
+            .join(" · "),
+        })),
+        {
+          placeHolder:
+            cfg.profiles.length > 0 ? `Model for profile "${ep.name}"` : "Model for symfocus.openai.model",
+          matchOnDescription: true,
+        }
+      );
+      if (!picked || picked.label === current) return;
+
+      if (await saveModel(ep, picked.label, cfg.profiles.length > 0, doc)) {
+        void vscode.window.showInformationMessage(`Symfocus: Model set to "${picked.label}".`);
+      } else if (cfg.profiles.length > 0) {
+        void vscode.window.showWarningMessage(
+          `Symfocus: Could not find profile "${ep.name}" in the settings scope that defines symfocus.profiles.`
+        );
+      }
+    })
+  );
+}
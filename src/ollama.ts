@@ -0,0 +1,167 @@
+import type { ChatMessage, StreamOpenAIChatOpts, StreamResult } from "./llm";
+import {
+  createRequestSignal,
+  httpErrorResult,
+  readLines,
+  toErrorResult,
+} from "./httpStream";
+import { authHeaders, httpFetch } from "./httpClient";
+
+type OllamaLine = {
+  message?: { content?: string; thinking?: string };
+  done?: boolean;
+  done_reason?: string;
+  prompt_eval_count?: number;
+  eval_count?: number;
+  error?: string;
+};
+
+/**
+ * Streams a reply from Ollama's native `/api/chat`, which sends one JSON object per
+ * line rather than SSE. baseUrl is the server root (e.g. http://localhost:11434).
+ * `opts.ollama` supplies `num_ctx`, `keep_alive` and extra model options that the
+ * OpenAI shim drops. Any line that is not valid JSON, or a body that ends without
+ * `done: true`, is reported as an error instead of being skipped. The final
+ * `done_reason` is passed through as `finishReason`, and its eval counts as `usage`.
+ */
+export async function* streamOllamaChat(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  opts?: StreamOpenAIChatOpts
+): AsyncGenerator<StreamResult> {
+  const timeoutMs = opts?.timeoutMs ?? 0;
+  const log = opts?.log ?? (() => {});
+  const ollama = opts?.ollama;
+
+  const url = baseUrl.replace(/\/$/, "") + "/api/chat";
+
+  const options: Record<string, unknown> = {
+    ...(ollama?.options ?? {}),
+    ...(ollama?.numCtx != null && ollama.numCtx > 0 && { num_ctx: ollama.numCtx }),
+    ...(opts?.maxTokens != null && { num_predict: opts.maxTokens }),
+    ...(opts?.temperature != null && { temperature: opts.temperature }),
+  };
+
+  const { signal: mergedSignal, clear: clearTimer } = createRequestSignal(
+    signal,
+    timeoutMs
+  );
+
+  log("ollama fetch start");
+  let res: Response;
+  try {
+    res = await httpFetch(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(apiKey, opts?.authScheme ?? "bearer"),
+          ...opts?.headers,
+        },
+        body: JSON.stringify({
+          model,
+          messages,
+          stream: true,
+          ...(ollama?.keepAlive && { keep_alive: ollama.keepAlive }),
+          ...(Object.keys(options).length > 0 && { options }),
+        }),
+        signal: mergedSignal,
+      },
+      opts?.http
+    );
+  } catch (e) {
+    clearTimer();
+    log(`ollama fetch error: ${e instanceof Error ? e.message : String(e)}`);
+    yield toErrorResult(e, "Network error", true);
+    return;
+  }
+
+  log(`ollama fetch ok status=${res.status}`);
+
+  if (!res.ok) {
+    clearTimer();
+    yield await httpErrorResult(res);
+    return;
+  }
+
+  if (!res.body) {
+    clearTimer();
+    yield { type: "error", message: "Response body is empty" };
+    return;
+  }
+
+  let yieldCount = 0;
+
+  try {
+    for await (const raw of readLines(res.body, mergedSignal)) {
+      const line = raw.trim();
+      if (line === "") continue;
+
+      let data: OllamaLine;
+      try {
+        data = JSON.parse(line) as OllamaLine;
+      } catch {
+        clearTimer();
+        log(`ollama malformed line: ${line.slice(0, 120)}`);
+        yield {
+          type: "error",
+          message: `Malformed response from Ollama: ${line.slice(0, 120)}`,
+        };
+        return;
+      }
+
+      if (typeof data.error === "string") {
+        clearTimer();
+        yield { type: "error", message: `API error: ${data.error}` };
+        return;
+      }
+
+      const thinking = data.message?.thinking;
+      if (typeof thinking === "string" && thinking.length > 0) {
+        yield { type: "reasoning", content: thinking };
+      }
+
+      const content = data.message?.content;
+      if (typeof content === "string" && content.length > 0) {
+        yieldCount++;
+        if (yieldCount <= 3) log(`ollama yield #${yieldCount} len=${content.length}`);
+        yield { type: "chunk", content };
+      }
+
+      if (data.done) {
+        clearTimer();
+        log(`ollama done_reason=${data.done_reason ?? ""}`);
+        if (data.prompt_eval_count != null || data.eval_count != null) {
+          yield {
+            type: "usage",
+            promptTokens: data.prompt_eval_count ?? 0,
+            completionTokens: data.eval_count ?? 0,
+          };
+        }
+        yield {
+          type: "done",
+          ...(data.done_reason && { finishReason: data.done_reason }),
+        };
+        return;
+      }
+    }
+
+    clearTimer();
+    if (mergedSignal?.aborted) {
+      yield { type: "error", message: "Request aborted.", aborted: true };
+      return;
+    }
+    yield {
+      type: "error",
+      message: "Ollama stream ended before the final done message.",
+    };
+  } catch (e) {
+    clearTimer();
+    log(`ollama stream catch: ${e instanceof Error ? e.message : String(e)}`);
+    yield toErrorResult(e, "Streaming error");
+  }
+}
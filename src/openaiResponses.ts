@@ -0,0 +1,262 @@
+import type { ChatMessage, StreamOpenAIChatOpts, StreamResult, ToolCall } from "./llm";
+import {
+  createRequestSignal,
+  httpErrorResult,
+  readLines,
+  toErrorResult,
+} from "./httpStream";
+import { authHeaders, httpFetch } from "./httpClient";
+
+type ResponsesUsage = { input_tokens?: number; output_tokens?: number };
+
+type ResponsesOutputItem = {
+  type?: string;
+  call_id?: string;
+  name?: string;
+  arguments?: string;
+};
+
+type ResponsesEvent = {
+  type?: string;
+  delta?: string;
+  item?: ResponsesOutputItem;
+  response?: {
+    status?: string;
+    usage?: ResponsesUsage;
+    incomplete_details?: { reason?: string };
+    error?: { code?: string; message?: string };
+  };
+  /** Top-level `error` events carry these directly. */
+  code?: string;
+  message?: string;
+};
+
+/**
+ * Maps chat messages to Responses API input: system messages become `instructions`,
+ * assistant tool calls become `function_call` items and tool results become
+ * `function_call_output` items.
+ */
+function toResponsesInput(messages: ChatMessage[]): {
+  instructions: string;
+  input: Record<string, unknown>[];
+} {
+  const instructions = messages
+    .filter((m) => m.role === "system")
+    .map((m) => m.content)
+    .join("\n\n");
+  const input: Record<string, unknown>[] = [];
+  for (const m of messages) {
+    if (m.role === "system") continue;
+    if (m.role === "tool") {
+      input.push({ type: "function_call_output", call_id: m.tool_call_id, output: m.content });
+      continue;
+    }
+    if (m.content) input.push({ role: m.role, content: m.content });
+    for (const call of m.tool_calls ?? []) {
+      input.push({
+        type: "function_call",
+        call_id: call.id,
+        name: call.function.name,
+        arguments: call.function.arguments,
+      });
+    }
+  }
+  return { instructions, input };
+}
+
+function usageResult(usage: ResponsesUsage | undefined): StreamResult | undefined {
+  if (!usage) return undefined;
+  return {
+    type: "usage",
+    promptTokens: usage.input_tokens ?? 0,
+    completionTokens: usage.output_tokens ?? 0,
+  };
+}
+
+/**
+ * Streams a reply from the OpenAI Responses API (`/v1/responses`).
+ * baseUrl must not include /responses (e.g. https://api.openai.com/v1).
+ * Text arrives as `response.output_text.delta`, reasoning summaries as `reasoning`
+ * results, and finished `function_call` items are collected into `toolCalls`.
+ * `response.completed` and `response.incomplete` end the stream with usage and
+ * `done` (`max_output_tokens` maps to finishReason "length"); `response.failed`,
+ * `error` events and refusals end it with an error. Yields the same `StreamResult`
+ * union as `streamOpenAIChat`. `opts.temperature` is not sent: the reasoning
+ * models served only on /responses reject it with a 400.
+ */
+export async function* streamOpenAIResponses(
+  baseUrl: string,
+  apiKey: string,
+  model: string,
+  messages: ChatMessage[],
+  signal?: AbortSignal,
+  opts?: StreamOpenAIChatOpts
+): AsyncGenerator<StreamResult> {
+  const timeoutMs = opts?.timeoutMs ?? 0;
+  const log = opts?.log ?? (() => {});
+
+  const url = baseUrl.replace(/\/$/, "") + "/responses";
+  const { instructions, input } = toResponsesInput(messages);
+  const tools = opts?.tools?.map((t) => ({
+    type: "function",
+    name: t.function.name,
+    description: t.function.description,
+    parameters: t.function.parameters,
+  }));
+
+  const { signal: mergedSignal, clear: clearTimer } = createRequestSignal(
+    signal,
+    timeoutMs
+  );
+
+  log("responses fetch start");
+  let res: Response;
+  try {
+    res = await httpFetch(
+      url,
+      {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+          ...authHeaders(apiKey, opts?.authScheme ?? "bearer"),
+          ...opts?.headers,
+        },
+        body: JSON.stringify({
+          model,
+          ...(instructions.length > 0 && { instructions }),
+          input,
+          stream: true,
+          store: false,
+          ...(tools && tools.length > 0 && { tools }),
+          ...(opts?.maxTokens != null && { max_output_tokens: opts.maxTokens }),
+        }),
+        signal: mergedSignal,
+      },
+      opts?.http
+    );
+  } catch (e) {
+    clearTimer();
+    log(`responses fetch error: ${e instanceof Error ? e.message : String(e)}`);
+    yield toErrorResult(e, "Network error", true);
+    return;
+  }
+
+  log(`responses fetch ok status=${res.status}`);
+
+  if (!res.ok) {
+    clearTimer();
+    yield await httpErrorResult(res);
+    return;
+  }
+
+  if (!res.body) {
+    clearTimer();
+    yield { type: "error", message: "Response body is empty" };
+    return;
+  }
+
+  let yieldCount = 0;
+  let loggedParseErr = false;
+  let refusal = "";
+  const toolCalls: ToolCall[] = [];
+
+  try {
+    for await (const raw of readLines(res.body, mergedSignal)) {
+      const line = raw.trim();
+      if (!line.startsWith("data:")) continue;
+
+      const json = line.slice(5).trim();
+      if (json === "[DONE]") continue;
+      let event: ResponsesEvent;
+      try {
+        event = JSON.parse(json) as ResponsesEvent;
+      } catch (e) {
+        if (!loggedParseErr) {
+          loggedParseErr = true;
+          log(`responses parse err: ${e instanceof Error ? e.message : String(e)} json=${json.slice(0, 120)}...`);
+        }
+        continue;
+      }
+
+      switch (event.type) {
+        case "response.output_text.delta":
+          if (typeof event.delta === "string") {
+            yieldCount++;
+            if (yieldCount <= 3) log(`responses yield #${yieldCount} len=${event.delta.length}`);
+            yield { type: "chunk", content: event.delta };
+          }
+          break;
+        case "response.reasoning_summary_text.delta":
+        case "response.reasoning_text.delta":
+          if (typeof event.delta === "string") {
+            yield { type: "reasoning", content: event.delta };
+          }
+          break;
+        case "response.refusal.delta":
+          if (typeof event.delta === "string") refusal += event.delta;
+          break;
+        case "response.output_item.done":
+          if (event.item?.type === "function_call" && event.item.name) {
+            toolCalls.push({
+              id: event.item.call_id ?? `call_${toolCalls.length}`,
+              type: "function",
+              function: { name: event.item.name, arguments: event.item.arguments ?? "" },
+            });
+          }
+          break;
+        case "response.completed":
+        case "response.incomplete": {
+          clearTimer();
+          if (refusal) {
+            yield { type: "error", message: `The model refused: ${refusal.trim()}` };
+            return;
+          }
+          const usage = usageResult(event.response?.usage);
+          if (usage) yield usage;
+          if (toolCalls.length > 0) {
+            yield { type: "toolCalls", calls: toolCalls };
+            yield { type: "done", finishReason: "tool_calls" };
+            return;
+          }
+          const reason = event.response?.incomplete_details?.reason;
+          yield {
+            type: "done",
+            finishReason:
+              event.type === "response.completed"
+                ? "stop"
+                : reason === "max_output_tokens"
+                  ? "length"
+                  : reason ?? "incomplete",
+          };
+          return;
+        }
+        case "response.failed":
+          clearTimer();
+          yield {
+            type: "error",
+            message: `API error: ${event.response?.error?.message ?? event.response?.error?.code ?? "response failed"}`,
+          };
+          return;
+        case "error":
+          clearTimer();
+          yield {
+            type: "error",
+            message: `API error: ${event.message ?? event.code ?? "unknown"}`,
+          };
+          return;
+      }
+    }
+
+    clearTimer();
+    if (mergedSignal?.aborted) {
+      yield { type: "error", message: "Request aborted.", aborted: true };
+      return;
+    }
+    log(`responses body ended without response.completed yieldCount=${yieldCount}`);
+    yield { type: "error", message: "Stream ended before the response completed." };
+  } catch (e) {
+    clearTimer();
+    log(`responses stream catch: ${e instanceof Error ? e.message : String(e)}`);
+    yield toErrorResult(e, "Streaming error");
+  }
+}
@@ -0,0 +1,50 @@
+import * as vscode from "vscode";
+import { getSymfocusConfig, targetFor } from "./config";
+
+export function registerProfileCommand(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.selectProfile", async () => {
+      const cfg = getSymfocusConfig();
+      if (cfg.profiles.length === 0) {
+        const action = await vscode.window.showInformationMessage(
+          "Symfocus: No profiles configured. Add entries to symfocus.profiles first.",
+          "Open Settings"
+        );
+        if (action === "Open Settings") {
+          void vscode.commands.executeCommand(
+            "workbench.action.openSettings",
+            "symfocus.profiles"
+          );
+        }
+        return;
+      }
+
+      const active =
+        cfg.profiles.find((p) => p.name === cfg.activeProfile) ?? cfg.profiles[0];
+      const items = cfg.profiles.map((p) => {
+        const failoverIndex = cfg.failoverChain.indexOf(p.name);
+        return {
+          label: p.name,
+          description:
+            `${p.model || "(no model)"} · ${p.provider}` + (p === active ? " · active" : ""),
+          detail:
+            (p.baseUrl || "(no base URL)") +
+            (failoverIndex >= 0 ? ` · failover #${failoverIndex + 1}` : ""),
+          profileName: p.name,
+        };
+      });
+
+      const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: `Active profile: ${active.name}`,
+      });
+      if (!picked || picked.profileName === cfg.activeProfile) return;
+
+      await vscode.workspace
+        .getConfiguration()
+        .update("symfocus.activeProfile", picked.profileName, targetFor("symfocus.activeProfile"));
+      void vscode.window.showInformationMessage(
+        `Symfocus: Active profile is now "${picked.profileName}".`
+      );
+    })
+  );
+}
@@ -0,0 +1,99 @@
+import * as vscode from "vscode";
+import type { LlmProvider } from "./config";
+
+/** Used when a model has no `symfocus.context.windows` entry. */
+const DEFAULT_WINDOW = 32_768;
+/** Ollama's own default `num_ctx` when `symfocus.ollama.numCtx` is 0. */
+const OLLAMA_DEFAULT_WINDOW = 4096;
+
+/**
+ * Rough token count: ~3.5 characters per token for code and English, one token
+ * per non-ASCII character (CJK, emoji). Errs high so budgets leave headroom.
+ */
+export function estimateTokens(text: string): number {
+  let nonAscii = 0;
+  for (let i = 0; i < text.length; i++) {
+    if (text.charCodeAt(i) > 127) nonAscii++;
+  }
+  return Math.ceil((text.length - nonAscii) / 3.5 + nonAscii);
+}
+
+/**
+ * Context window for `model`: exact `symfocus.context.windows` entry first, then the
+ * longest key that prefixes the model; otherwise `numCtx` (or Ollama's default)
+ * for Ollama, and DEFAULT_WINDOW for everything else.
+ */
+export function getContextWindow(
+  model: string,
+  provider: LlmProvider,
+  ollamaNumCtx: number
+): number {
+  const windows =
+    vscode.workspace.getConfiguration().get<Record<string, number>>("symfocus.context.windows") ??
+    {};
+  let best: string | undefined;
+  for (const key of Object.keys(windows)) {
+    if (typeof windows[key] !== "number" || windows[key] <= 0) continue;
+    if (key === model) return windows[key];
+    if (model.startsWith(key) && (best === undefined || key.length > best.length)) {
+      best = key;
+    }
+  }
+  if (best !== undefined) return windows[best];
+  if (provider === "ollama") return ollamaNumCtx > 0 ? ollamaNumCtx : OLLAMA_DEFAULT_WINDOW;
+  return DEFAULT_WINDOW;
+}
+
+/** Longest prefix of `text` that fits in `maxTokens`, cut at a line break when possible. */
+export function truncateToTokens(text: string, maxTokens: number): string {
+  if (estimateTokens(text) <= maxTokens) return text;
+  if (maxTokens <= 0) return "";
+  let lo = 0;
+  let hi = text.length;
+  while (lo < hi) {
+    const mid = Math.ceil((lo + hi) / 2);
+    if (estimateTokens(text.slice(0, mid)) <= maxTokens) lo = mid;
+    else hi = mid - 1;
+  }
+  const cut = text.slice(0, lo);
+  const nl = cut.lastIndexOf("\n");
+  return nl > lo / 2 ? cut.slice(0, nl) : cut;
+}
+
+/**
+ * Keeps the head and tail of `lines` within `maxTokens` (about 70/30), replacing
+ * the middle with a marker. Returns the kept text and the omitted 0-based range.
+ */
+export function truncateMiddle(
+  lines: string[],
+  maxTokens: number,
+  marker: (from: number, to: number) => string
+): { text: string; omitted?: { from: number; to: number } } {
+  const full = lines.join("\n");
+  if (estimateTokens(full) <= maxTokens) return { text: full };
+
+  const budget = Math.max(0, maxTokens - estimateTokens(marker(0, lines.length)));
+  let headBudget = Math.floor(budget * 0.7);
+  let head = 0;
+  while (head < lines.length) {
+    const cost = estimateTokens(lines[head]) + 1;
+    if (cost > headBudget) break;
+    headBudget -= cost;
+    head++;
+  }
+  let tailBudget = budget - Math.floor(budget * 0.7) + headBudget;
+  let tail = lines.length;
+  while (tail > head) {
+    const cost = estimateTokens(lines[tail - 1]) + 1;
+    if (cost > tailBudget) break;
+    tailBudget -= cost;
+    tail--;
+  }
+  const omitted = { from: head, to: tail - 1 };
+  return {
+    text: [...lines.slice(0, head), marker(omitted.from, omitted.to), ...lines.slice(tail)].join(
+      "\n"
+    ),
+    omitted,
+  };
+}
@@ -1,4 +1,5 @@
 import type { ExplanationMode, ExperienceLevel } from "./config";
+import { estimateTokens, truncateMiddle, truncateToTokens } from "./promptBudget";
 
 export const SYSTEM_PROMPT = `You explain code to developers. Your response must follow this structure:
 
@@ -72,10 +73,46 @@ export type BuildUserPromptOptions = {
   explanationMode?: ExplanationMode;
   experienceLevel?: ExperienceLevel;
   projectContext?: string;
+  /** Max estimated tokens for the whole prompt; lower-priority context is cut to fit. */
+  tokenBudget?: number;
+  /** Workspace template body with `{{placeholder}}` fields; replaces the built-in layout. */
+  template?: string;
+  /** Replaces the section list chosen by kind and mode. */
+  sections?: string[];
+  /** Appended to the section list, before See Also. */
+  addSections?: string[];
 };
 
+/** Fields a user-prompt template may reference as `{{name}}`. */
+export const PROMPT_PLACEHOLDERS = [
+  "file",
+  "path",
+  "name",
+  "kind",
+  "lang",
+  "line",
+  "column",
+  "signature",
+  "container",
+  "deprecated",
+  "imports",
+  "source",
+  "hover",
+  "definition",
+  "references",
+  "callers",
+  "projectContext",
+  "omitted",
+  "sections",
+  "mode",
+  "modeInstruction",
+  "experienceInstruction",
+] as const;
+
+export const PLACEHOLDER_RE = /\{\{\s*(\w+)\s*\}\}/g;
+
 /** Map VS Code symbol kind labels to categories for section selection */
-function categorizeKind(kindLabel: string): SymbolKindCategory {
+export function categorizeKind(kindLabel: string): SymbolKindCategory {
   const lower = kindLabel.toLowerCase();
   if (["function", "method", "constructor"].includes(lower)) return "function";
   if (["class", "struct"].includes(lower)) return "class";
@@ -117,8 +154,18 @@ function buildSectionsList(
   category: SymbolKindCategory,
   _source: string,
   mode: ExplanationMode,
-  isDeprecated: boolean
+  isDeprecated: boolean,
+  override?: { sections?: string[]; addSections?: string[] }
 ): string[] {
+  if (override?.sections || override?.addSections?.length) {
+    const base = override.sections ?? buildSectionsList(category, _source, mode, isDeprecated);
+    const extra = (override.addSections ?? []).filter((s) => !base.includes(s));
+    const seeAlso = base.indexOf("See Also");
+    return seeAlso < 0
+      ? [...base, ...extra]
+      : [...base.slice(0, seeAlso), ...extra, ...base.slice(seeAlso)];
+  }
+
   if (mode === "quick") {
     return ["Summary", "Definition"];
   }
@@ -135,8 +182,10 @@ function buildSectionsList(
   return sections;
 }
 
-function buildExperienceInstruction(_level: ExperienceLevel): string {
-  return "Assume the reader understands the language. Don't explain syntax or basic patterns.";
+function buildExperienceInstruction(level: ExperienceLevel): string {
+  return level === "junior"
+    ? "The reader is still learning the language. Briefly explain non-obvious syntax, idioms and library calls where they appear."
+    : "Assume the reader understands the language. Don't explain syntax or basic patterns.";
 }
 
 export function buildUserPrompt(
@@ -162,10 +211,17 @@ export function buildUserPrompt(
     explanationMode = "standard",
     experienceLevel = "senior",
     projectContext,
+    tokenBudget,
+    template,
+    sections: sectionsOverride,
+    addSections,
   } = options ?? {};
 
   const category = categorizeKind(kindLabel);
-  const sections = buildSectionsList(category, source, explanationMode, isDeprecated ?? false);
+  const sections = buildSectionsList(category, source, explanationMode, isDeprecated ?? false, {
+    sections: sectionsOverride,
+    addSections,
+  });
 
   let sourceVal = source;
   let importBlockVal = importBlock;
@@ -184,66 +240,194 @@ export function buildUserPrompt(
     if (projectContextVal) projectContextVal = projectContextVal.slice(0, 80);
   }
 
-  const importSection =
-    importBlockVal && importBlockVal.length > 0
-      ? "Imports / header:\n```" + lang + "\n" + importBlockVal + "\n```\n\n"
-      : "";
+  const render = (parts: PromptParts) =>
+    renderUserPrompt({
+      relativePath,
+      name,
+      kindLabel,
+      lang,
+      containerName,
+      isDeprecated,
+      definitionLocation,
+      referencesSummary,
+      line,
+      column,
+      pathLabel: displayPath ?? relativePath,
+      experienceInstruction: buildExperienceInstruction(experienceLevel),
+      explanationMode,
+      sections,
+      template,
+      ...parts,
+    });
+
+  const parts: PromptParts = {
+    source: sourceVal,
+    detail,
+    callerSnippets: callerSnippetsVal,
+    importBlock: importBlockVal,
+    ideHover,
+    projectContext: projectContextVal,
+  };
+  if (tokenBudget == null || estimateTokens(render(parts)) <= tokenBudget) {
+    return render(parts);
+  }
+  return render(fitToBudget(parts, tokenBudget - estimateTokens(render({ source: "" })), line));
+}
 
-  const hoverLine = ideHover && ideHover.length > 0 ? `\nIDE hover: ${ideHover}` : "";
+/** Context pieces that may be truncated or dropped to fit the token budget. */
+type PromptParts = {
+  source: string;
+  detail?: string;
+  callerSnippets?: CallerSnippet[];
+  importBlock?: string;
+  ideHover?: string;
+  projectContext?: string;
+  /** Tells the model what was left out, so it does not invent it. */
+  omittedNote?: string;
+};
 
-  const afterSymbol =
-    (detail ? `\nSignature: ${detail}` : "") +
-    (containerName ? `\nContainer: ${containerName}` : "") +
-    (isDeprecated ? `\n⚠️ DEPRECATED` : "");
+/** Room kept for the omitted-context note. */
+const OMITTED_NOTE_TOKENS = 80;
+
+/**
+ * Shrinks `parts` to `budget` tokens, filling in priority order: source, signature,
+ * caller examples, imports, IDE hover, project context. Oversized source keeps its
+ * head and tail; callers are dropped whole; the rest is cut or dropped.
+ */
+function fitToBudget(parts: PromptParts, budget: number, line: number | undefined): PromptParts {
+  let remaining = Math.max(0, budget - OMITTED_NOTE_TOKENS);
+  const omitted: string[] = [];
+  const take = (text: string) => {
+    remaining = Math.max(0, remaining - estimateTokens(text));
+    return text;
+  };
+
+  const sourceLines = parts.source.split("\n");
+  const fitted = truncateMiddle(sourceLines, remaining, (from, to) =>
+    line != null
+      ? `... [lines ${line + from}-${line + to} omitted] ...`
+      : `... [${to - from + 1} lines omitted] ...`
+  );
+  const source = take(fitted.text);
+  if (fitted.omitted) {
+    const { from, to } = fitted.omitted;
+    omitted.push(
+      line != null
+        ? `source lines ${line + from}-${line + to} (${to - from + 1} lines, marked in the block)`
+        : `${to - from + 1} source lines (marked in the block)`
+    );
+  }
 
-  const afterHover =
-    (definitionLocation
-      ? `\nDefined in: ${definitionLocation.path}:${definitionLocation.line}`
-      : "") + (referencesSummary ? `\n${referencesSummary}` : "");
+  let detail = parts.detail;
+  if (detail) {
+    detail = take(truncateToTokens(detail, remaining));
+    if (detail.length < parts.detail!.length) omitted.push(detail ? "end of the signature" : "signature");
+  }
 
-  let callerSnippetsSection = "";
-  if (callerSnippetsVal && callerSnippetsVal.length > 0) {
-    const snippetLines = callerSnippetsVal.map(
-      (s) => `${s.file}:${s.line}\n\`\`\`\n${s.snippet}\n\`\`\``
-    );
-    callerSnippetsSection = `\nCaller examples from codebase:\n${snippetLines.join("\n\n")}`;
+  const callerSnippets: CallerSnippet[] = [];
+  for (const s of parts.callerSnippets ?? []) {
+    const cost = estimateTokens(`${s.file}:${s.line}\n\`\`\`\n${s.snippet}\n\`\`\`\n\n`);
+    if (cost > remaining) break;
+    remaining -= cost;
+    callerSnippets.push(s);
+  }
+  const droppedCallers = (parts.callerSnippets?.length ?? 0) - callerSnippets.length;
+  if (droppedCallers > 0) {
+    omitted.push(`${droppedCallers} of ${parts.callerSnippets!.length} caller examples`);
   }
 
-  const locationLine =
-    line != null ? `Line: ${line}${column ? `, col ${column}` : ""}` : "";
+  let importBlock = parts.importBlock;
+  if (importBlock) {
+    const cut = truncateToTokens(importBlock, remaining - 10);
+    const droppedLines = importBlock.split("\n").length - (cut ? cut.split("\n").length : 0);
+    importBlock = take(cut);
+    if (droppedLines > 0) omitted.push(cut ? `${droppedLines} import lines` : "imports");
+  }
 
-  const pathLabel = displayPath ?? relativePath;
-  const experienceInstruction = buildExperienceInstruction(experienceLevel);
+  let ideHover = parts.ideHover;
+  if (ideHover) {
+    ideHover = take(truncateToTokens(ideHover, remaining));
+    if (!ideHover) omitted.push("IDE hover");
+  }
 
-  const sectionHeadings = sections.map((s) => `### ${s}`).join("\n");
+  let projectContext = parts.projectContext;
+  if (projectContext) {
+    projectContext = take(truncateToTokens(projectContext, remaining - 20));
+    if (!projectContext) omitted.push("project context");
+  }
 
-  const modeInstruction =
-    explanationMode === "quick"
-      ? "Be extremely brief—just 1-2 sentences total."
-      : explanationMode === "deep"
-        ? "Be thorough. Cover edge cases and non-obvious behavior."
-        : "Be concise but complete. 2-3 sentences per section max.";
+  return {
+    source,
+    detail,
+    callerSnippets,
+    importBlock,
+    ideHover,
+    projectContext,
+    ...(omitted.length > 0 && {
+      omittedNote: `Omitted to fit the model's context window: ${omitted.join("; ")}. Do not guess at omitted code; say so where it matters.`,
+    }),
+  };
+}
 
-  const contextSection = projectContextVal
-    ? `\nProject context: ${projectContextVal}\nRelate explanations to this domain where relevant.\n`
-    : "";
+type RenderInput = PromptParts & {
+  relativePath: string;
+  name: string;
+  kindLabel: string;
+  lang: string;
+  containerName?: string;
+  isDeprecated?: boolean;
+  definitionLocation?: { path: string; line: number };
+  referencesSummary?: string;
+  line?: number;
+  column?: number;
+  pathLabel: string;
+  experienceInstruction: string;
+  explanationMode: ExplanationMode;
+  sections: string[];
+  template?: string;
+};
 
-  return `File: ${relativePath}
-Symbol: \`${name}\` (${kindLabel})${afterSymbol}
-${locationLine}
-${importSection}Source:
-\`\`\`${lang}
-${sourceVal}
-\`\`\`${hoverLine}${afterHover}${callerSnippetsSection}
-${contextSection}
-Explain this ${kindLabel} at ${pathLabel}:${line ?? "?"}.
+function modeInstructionFor(mode: ExplanationMode): string {
+  return mode === "quick"
+    ? "Be extremely brief—just 1-2 sentences total."
+    : mode === "deep"
+      ? "Be thorough. Cover edge cases and non-obvious behavior."
+      : "Be concise but complete. 2-3 sentences per section max.";
+}
 
-${experienceInstruction}
+/**
+ * Layout of the built-in symbol prompt, in workspace template syntax. **Create
+ * Prompt Template** seeds user templates with it, so they start from this prompt.
+ */
+export const BUILT_IN_USER_TEMPLATE = `File: {{file}}
+Symbol: \`{{name}}\` ({{kind}})
+Signature: {{signature}}
+Container: {{container}}
+⚠️ {{deprecated}}
+Line: {{line}}, col {{column}}
+{{imports}}
 
-${modeInstruction}
+Source:
+\`\`\`{{lang}}
+{{source}}
+\`\`\`
+IDE hover: {{hover}}
+Defined in: {{definition}}
+{{references}}
+{{callers}}
+
+{{omitted}}
+
+Project context: {{projectContext}}. Relate explanations to this domain where relevant.
+
+Explain this {{kind}} at {{path}}:{{line}}.
+
+{{experienceInstruction}}
+
+{{modeInstruction}}
 
 Structure your response with these headings (skip any section if nothing meaningful to say):
-${sectionHeadings}
+{{sections}}
 Always include **See Also** when context provides definitionLocation, referencesSummary, or callerSnippets.
 
 Rules:
@@ -252,4 +436,526 @@ Rules:
 - Reference line numbers when relevant
 - For file:line links, use only line numbers from Line:, Defined in:, referencesSummary, and callerSnippets; do not infer from the source block
 - If a concept needs explaining, explain it inline in the relevant section`;
+
+/**
+ * Fills a workspace template or `BUILT_IN_USER_TEMPLATE`. Block fields (`imports`,
+ * `callers`) come with their own labels and fences, or empty. A line whose fields
+ * are all empty is dropped, so "Signature: {{signature}}" disappears for symbols
+ * without one; so is a blank line that would then double an earlier one.
+ */
+function renderTemplate(template: string, p: RenderInput): string {
+  const values: Record<(typeof PROMPT_PLACEHOLDERS)[number], string> = {
+    file: p.relativePath,
+    path: p.pathLabel,
+    name: p.name,
+    kind: p.kindLabel,
+    lang: p.lang,
+    line: p.line != null ? String(p.line) : "?",
+    column: p.column != null ? String(p.column) : "",
+    signature: p.detail ?? "",
+    container: p.containerName ?? "",
+    deprecated: p.isDeprecated ? "DEPRECATED" : "",
+    imports: p.importBlock
+      ? "Imports / header:\n```" + p.lang + "\n" + p.importBlock + "\n```"
+      : "",
+    source: p.source,
+    hover: p.ideHover ?? "",
+    definition: p.definitionLocation
+      ? `${p.definitionLocation.path}:${p.definitionLocation.line}`
+      : "",
+    references: p.referencesSummary ?? "",
+    callers: p.callerSnippets?.length
+      ? "Caller examples from codebase:\n" +
+        p.callerSnippets.map((s) => `${s.file}:${s.line}\n\`\`\`\n${s.snippet}\n\`\`\``).join("\n\n")
+      : "",
+    projectContext: p.projectContext ?? "",
+    omitted: p.omittedNote ?? "",
+    sections: p.sections.map((s) => `### ${s}`).join("\n"),
+    mode: p.explanationMode,
+    modeInstruction: modeInstructionFor(p.explanationMode),
+    experienceInstruction: p.experienceInstruction,
+  };
+  const valueOf = (key: string) => (key in values ? values[key as keyof typeof values] : undefined);
+  const kept: string[] = [];
+  let dropped = false;
+  for (const line of template.split("\n")) {
+    const keys = [...line.matchAll(PLACEHOLDER_RE)].map((m) => m[1]);
+    if (keys.length > 0 && keys.every((k) => valueOf(k) === "")) {
+      dropped = true;
+      continue;
+    }
+    // Dropping a line between two blank ones would leave a double gap.
+    if (dropped && !line.trim() && kept.length > 0 && !kept[kept.length - 1].trim()) continue;
+    dropped = false;
+    kept.push(line);
+  }
+  return kept
+    .join("\n")
+    .replace(PLACEHOLDER_RE, (m, key: string) => valueOf(key) ?? m)
+    .trim();
+}
+
+function renderUserPrompt(p: RenderInput): string {
+  return renderTemplate(p.template ?? BUILT_IN_USER_TEMPLATE, p);
+}
+
+/** System prompt for Explain Selection: a walkthrough of a block rather than a symbol reference. */
+export const SELECTION_SYSTEM_PROMPT = `You explain a selected block of code to developers, step by step. Your response must follow this structure:
+
+**Summary**: 1-2 sentences on what the block accomplishes.
+
+**Step by Step**: A numbered walkthrough in execution order. Start each step with a link to the lines it covers (e.g. [src/file.ts:42-45](src/file.ts:42-45)), then say what happens and why.
+
+**Inputs & Outputs**: Values the block reads from its surroundings (parameters, outer variables, fields) and what it produces, returns or changes for the code after it.
+
+**Side Effects**: State mutations, I/O, network calls, blocking behavior. Write "None" if there are none.
+
+**Notes**: Edge cases, likely bugs, non-obvious behavior. Skip if nothing notable.
+
+Rules:
+- Do not output a top-level # EXPLANATION or # Explanation heading; the UI provides the title.
+- Explain only the selected lines. The enclosing symbol is context; do not explain the rest of it.
+- Every selected line starts with its 1-based file line number and "| ". Cite lines only with those numbers, as [path:N](path:N) or [path:N-M](path:N-M), using the exact path given after \`File:\`. Never cite a line outside the selection.
+- Never copy the line-number prefixes into quoted code.
+- Be specific to THIS code, not generic advice.
+- Skip any section with nothing meaningful to say.`;
+
+export type BuildSelectionPromptOptions = {
+  /** Symbol containing the selection, for context. Lines are 1-based. */
+  enclosing?: {
+    name: string;
+    kind: string;
+    startLine: number;
+    endLine: number;
+    detail?: string;
+    /** First lines of the symbol above the selection (its declaration). */
+    header?: string;
+  };
+  importBlock?: string;
+  displayPath?: string;
+  explanationMode?: ExplanationMode;
+  experienceLevel?: ExperienceLevel;
+  projectContext?: string;
+  /** Max estimated tokens for the whole prompt; imports go first, then the middle of the selection. */
+  tokenBudget?: number;
+};
+
+/**
+ * User prompt for Explain Selection. `source` is the exact selected text starting
+ * at 1-based `startLine`; each line is prefixed with its file line number so the
+ * model's links point at the right lines.
+ */
+export function buildSelectionPrompt(
+  relativePath: string,
+  lang: string,
+  source: string,
+  startLine: number,
+  options?: BuildSelectionPromptOptions
+): string {
+  const {
+    enclosing,
+    importBlock,
+    displayPath,
+    explanationMode = "standard",
+    experienceLevel = "senior",
+    projectContext,
+    tokenBudget,
+  } = options ?? {};
+
+  const lines = source.split("\n");
+  const endLine = startLine + lines.length - 1;
+  const width = String(endLine).length;
+  const numbered = lines.map((l, i) => `${String(startLine + i).padStart(width)}| ${l}`);
+  const range = endLine > startLine ? `${startLine}-${endLine}` : String(startLine);
+
+  const render = (code: string, imports: string | undefined, omittedNote?: string) => {
+    const enclosingSection = enclosing
+      ? `\nInside: ${enclosing.kind} \`${enclosing.name}\` (lines ${enclosing.startLine}-${enclosing.endLine})` +
+        (enclosing.detail ? `\nSignature: ${enclosing.detail}` : "") +
+        (enclosing.header
+          ? `\nEnclosing declaration:\n\`\`\`${lang}\n${enclosing.header}\n\`\`\``
+          : "")
+      : "";
+    const importSection = imports
+      ? `\nImports / header:\n\`\`\`${lang}\n${imports}\n\`\`\``
+      : "";
+    const contextSection = projectContext
+      ? `\nProject context: ${projectContext}\nRelate the explanation to this domain where relevant.\n`
+      : "";
+    const sections =
+      explanationMode === "quick"
+        ? ["Summary", "Step by Step"]
+        : ["Summary", "Step by Step", "Inputs & Outputs", "Side Effects", "Notes"];
+    const modeInstruction =
+      explanationMode === "quick"
+        ? "Be brief: one sentence of summary and at most 5 short steps."
+        : modeInstructionFor(explanationMode);
+
+    return `File: ${relativePath}
+Selection: lines ${range} (${lines.length} line${lines.length === 1 ? "" : "s"})${enclosingSection}${importSection}
+
+Selected code (each line starts with its file line number):
+\`\`\`${lang}
+${code}
+\`\`\`${omittedNote ? `\n\n${omittedNote}` : ""}
+${contextSection}
+Explain what the selected code at ${displayPath ?? relativePath}:${range} does, step by step.
+
+${buildExperienceInstruction(experienceLevel)}
+
+${modeInstruction}
+
+Structure your response with these headings (skip any section if nothing meaningful to say):
+${sections.map((s) => `### ${s}`).join("\n")}`;
+  };
+
+  const full = render(numbered.join("\n"), importBlock);
+  if (tokenBudget == null || estimateTokens(full) <= tokenBudget) return full;
+
+  const overhead = estimateTokens(render("", undefined)) + OMITTED_NOTE_TOKENS;
+  const fitted = truncateMiddle(numbered, tokenBudget - overhead, (from, to) =>
+    `${" ".repeat(width)}| ... [lines ${startLine + from}-${startLine + to} omitted] ...`
+  );
+  const omitted = [
+    importBlock ? "imports" : "",
+    fitted.omitted
+      ? `selected lines ${startLine + fitted.omitted.from}-${startLine + fitted.omitted.to} (marked in the block)`
+      : "",
+  ].filter(Boolean);
+  return render(
+    fitted.text,
+    undefined,
+    omitted.length > 0
+      ? `Omitted to fit the model's context window: ${omitted.join("; ")}. Do not guess at omitted code; say so where it matters.`
+      : undefined
+  );
+}
+
+export const FILE_SYSTEM_PROMPT = `You give developers the big picture of a source file before they read it symbol by symbol. Your response must follow this structure:
+
+**Purpose**: 2-3 sentences on what the file is for and where it sits in the codebase.
+
+**Exports**: One bullet per symbol other files can use: a link to it, its kind, and one line on what it does.
+
+**Internal Helpers**: Same format for symbols used only inside the file.
+
+**Responsibilities**: The file's main jobs, grouping the symbols that carry out each one, and how they call each other.
+
+**Dependencies**: Key imports and what the file uses them for.
+
+**Notes**: Surprising design choices, global state, side effects at import time. Skip if nothing notable.
+
+Rules:
+- Do not output a top-level # EXPLANATION or # Explanation heading; the UI provides the title.
+- Link every symbol you list as [\`name\`](path:line), using the exact path after \`File:\` and the start line from the outline. Use ONLY line numbers from the outline; the source block has no line numbers.
+- Decide whether a symbol is exported from its declaration line (export, pub, public, module.exports, __all__ and similar) and the language's conventions.
+- Child symbols (indented in the outline) belong under their parent; list them only when they matter to the big picture.
+- Be specific to THIS file, not generic advice.
+- Skip any section with nothing meaningful to say.`;
+
+/** A symbol in the file outline, from `getDocumentOutline`. */
+export type FileOutlineEntry = {
+  name: string;
+  kind: string;
+  startLine: number;
+  endLine: number;
+  depth: number;
+  detail?: string;
+  declaration: string;
+};
+
+export type BuildFilePromptOptions = {
+  displayPath?: string;
+  explanationMode?: ExplanationMode;
+  experienceLevel?: ExperienceLevel;
+  projectContext?: string;
+  /** Max estimated tokens for the whole prompt; the source is trimmed first, then the outline's tail. */
+  tokenBudget?: number;
+};
+
+function formatOutlineEntry(e: FileOutlineEntry): string {
+  const lines = e.endLine > e.startLine ? `lines ${e.startLine}-${e.endLine}` : `line ${e.startLine}`;
+  return `${"  ".repeat(e.depth)}- ${e.kind} \`${e.name}\` (${lines})${e.detail ? ` ${e.detail}` : ""}: \`${e.declaration.replace(/`/g, "'")}\``;
+}
+
+/**
+ * Explain File: the symbol outline with real line numbers, then the file source.
+ * The model links symbols from the outline, so the source needs no numbering.
+ */
+export function buildFilePrompt(
+  relativePath: string,
+  lang: string,
+  source: string,
+  outline: FileOutlineEntry[],
+  options?: BuildFilePromptOptions
+): string {
+  const {
+    displayPath,
+    explanationMode = "standard",
+    experienceLevel = "senior",
+    projectContext,
+    tokenBudget,
+  } = options ?? {};
+
+  const sourceLines = source.split("\n");
+  const outlineLines = outline.map(formatOutlineEntry);
+
+  const render = (outlineText: string, code: string | undefined, omittedNote?: string) => {
+    const outlineSection = outlineText
+      ? `Outline (1-based line numbers; indented entries are children of the entry above):\n${outlineText}`
+      : "Outline: not available for this language. Describe symbols without links.";
+    const sourceSection =
+      code != null ? `\n\nSource:\n\`\`\`${lang}\n${code}\n\`\`\`` : "";
+    const contextSection = projectContext
+      ? `\nProject context: ${projectContext}\nRelate the explanation to this domain where relevant.\n`
+      : "";
+    const sections =
+      explanationMode === "quick"
+        ? ["Purpose", "Exports", "Internal Helpers", "Responsibilities"]
+        : explanationMode === "standard"
+          ? ["Purpose", "Exports", "Internal Helpers", "Responsibilities", "Dependencies"]
+          : ["Purpose", "Exports", "Internal Helpers", "Responsibilities", "Dependencies", "Notes"];
+    const modeInstruction =
+      explanationMode === "quick"
+        ? "Be brief: one short line per symbol and at most 3 responsibilities."
+        : modeInstructionFor(explanationMode);
+
+    return `File: ${relativePath}
+Language: ${lang}
+Lines: ${sourceLines.length}
+
+${outlineSection}${sourceSection}${omittedNote ? `\n\n${omittedNote}` : ""}
+${contextSection}
+Give an overview of ${displayPath ?? relativePath}: its exports, internal helpers and responsibilities.
+
+${buildExperienceInstruction(experienceLevel)}
+
+${modeInstruction}
+
+Structure your response with these headings (skip any section if nothing meaningful to say):
+${sections.map((s) => `### ${s}`).join("\n")}`;
+  };
+
+  const full = render(outlineLines.join("\n"), source);
+  if (tokenBudget == null || estimateTokens(full) <= tokenBudget) return full;
+
+  const withoutSource = estimateTokens(render(outlineLines.join("\n"), "")) + OMITTED_NOTE_TOKENS;
+  if (withoutSource < tokenBudget) {
+    const fitted = truncateMiddle(sourceLines, tokenBudget - withoutSource, (from, to) =>
+      `... [lines ${from + 1}-${to + 1} omitted] ...`
+    );
+    return render(
+      outlineLines.join("\n"),
+      fitted.text,
+      fitted.omitted
+        ? `Omitted to fit the model's context window: source lines ${fitted.omitted.from + 1}-${fitted.omitted.to + 1} (marked in the block). Do not guess at omitted code; rely on the outline there.`
+        : undefined
+    );
+  }
+
+  const overhead = estimateTokens(render("", undefined)) + OMITTED_NOTE_TOKENS;
+  const kept = truncateToTokens(outlineLines.join("\n"), tokenBudget - overhead).replace(/\n[^\n]*$/, "");
+  const keptCount = kept ? kept.split("\n").length : 0;
+  return render(
+    kept,
+    undefined,
+    `Omitted to fit the model's context window: the source${keptCount < outlineLines.length ? ` and the last ${outlineLines.length - keptCount} outline entries` : ""}. Base the overview on the outline.`
+  );
+}
+
+export const DOC_COMMENT_SYSTEM_PROMPT = `You write documentation comments for code. Reply with exactly one fenced code block holding the comment and nothing else: no prose before or after it, and never the symbol's code.
+
+Rules:
+- Follow the requested comment convention exactly, including its tags or sections.
+- Start with one sentence saying what the symbol does, then add details only where the code shows them: parameters, return value, errors or exceptions, side effects.
+- Describe behavior that is visible in the source. Do not invent parameters, defaults or guarantees.
+- Keep lines under 100 characters. Do not indent the comment to match the code; it is indented for you.
+- Do not restate the type signature in prose when the convention already carries types.`;
+
+/**
+ * User prompt for a doc comment: the explain prompt's context (source, signature,
+ * imports, callers, budget trimming) in a layout that asks for `style` instead of
+ * an explanation.
+ */
+export function buildDocCommentPrompt(
+  relativePath: string,
+  name: string,
+  kindLabel: string,
+  lang: string,
+  source: string,
+  style: string,
+  options?: BuildUserPromptOptions
+): string {
+  const template = `File: {{file}}
+Symbol: \`{{name}}\` ({{kind}})
+Signature: {{signature}}
+Container: {{container}}
+{{deprecated}}
+{{imports}}
+
+Source:
+\`\`\`{{lang}}
+{{source}}
+\`\`\`
+IDE hover: {{hover}}
+Defined in: {{definition}}
+{{references}}
+{{callers}}
+{{omitted}}
+
+Project context: {{projectContext}}
+
+Write the documentation comment for the ${kindLabel} \`${name}\`.
+Convention: ${style}`;
+  return buildUserPrompt(relativePath, name, kindLabel, lang, source, {
+    ...options,
+    template,
+    sections: undefined,
+    addSections: undefined,
+  });
+}
+
+export const DIFF_SYSTEM_PROMPT = `You review a change to one symbol and explain what it does to the code's behavior, not which lines moved. Your response must follow this structure:
+
+**Summary**: 1-2 sentences on what the change accomplishes.
+
+**Behavior Changes**: One bullet per observable difference: inputs accepted, values returned, errors thrown, state changed, calls made, performance. Say what happened before and what happens now, and link the current lines that cause it (e.g. [src/file.ts:42](src/file.ts:42)).
+
+**Impact on Callers**: Whether existing callers keep working, and what they must change (signature, return values, new errors, ordering). Write "None" if callers are unaffected.
+
+**Risks**: Likely bugs, regressions, unhandled edge cases and missing tests the change introduces. Skip if nothing notable.
+
+Rules:
+- Do not output a top-level # EXPLANATION or # Explanation heading; the UI provides the title.
+- Ignore pure refactors, renames and formatting except to say the behavior is unchanged.
+- Each line of the current version starts with its 1-based file line number and "| ". Cite lines only with those numbers, as [path:N](path:N) or [path:N-M](path:N-M), using the exact path given after \`File:\`. The HEAD version has no links.
+- Never copy the line-number prefixes into quoted code.
+- Be specific to THIS change, not generic advice.
+- Skip any section with nothing meaningful to say.`;
+
+export type BuildDiffPromptOptions = {
+  containerName?: string;
+  displayPath?: string;
+  explanationMode?: ExplanationMode;
+  experienceLevel?: ExperienceLevel;
+  projectContext?: string;
+  /** Max estimated tokens for the whole prompt; the HEAD version goes first, then the middles of the current version and the diff. */
+  tokenBudget?: number;
+};
+
+/**
+ * User prompt for Explain Changes. `before` is the symbol's source in HEAD
+ * (undefined when the symbol is new), `after` its current source starting at
+ * 1-based `startLine`, and `diff` a unified diff between the two.
+ */
+export function buildDiffPrompt(
+  relativePath: string,
+  name: string,
+  kindLabel: string,
+  lang: string,
+  before: string | undefined,
+  after: string,
+  startLine: number,
+  diff: string,
+  options?: BuildDiffPromptOptions
+): string {
+  const {
+    containerName,
+    displayPath,
+    explanationMode = "standard",
+    experienceLevel = "senior",
+    projectContext,
+    tokenBudget,
+  } = options ?? {};
+
+  const lines = after.split("\n");
+  const endLine = startLine + lines.length - 1;
+  const width = String(endLine).length;
+  const numbered = lines.map((l, i) => `${String(startLine + i).padStart(width)}| ${l}`);
+
+  const render = (
+    headSource: string | undefined,
+    code: string,
+    diffText: string,
+    omittedNote?: string
+  ) => {
+    const beforeSection =
+      before === undefined
+        ? "\nHEAD version: none; the symbol is new since the last commit."
+        : headSource
+          ? `\nHEAD version:\n\`\`\`${lang}\n${headSource}\n\`\`\``
+          : "";
+    const contextSection = projectContext
+      ? `\nProject context: ${projectContext}\nRelate the explanation to this domain where relevant.\n`
+      : "";
+    const sections =
+      explanationMode === "quick"
+        ? ["Summary", "Behavior Changes"]
+        : ["Summary", "Behavior Changes", "Impact on Callers", "Risks"];
+    const modeInstruction =
+      explanationMode === "quick"
+        ? "Be brief: one sentence of summary and at most 4 short bullets."
+        : modeInstructionFor(explanationMode);
+
+    return `File: ${relativePath}
+Symbol: \`${name}\` (${kindLabel})${containerName ? `\nContainer: ${containerName}` : ""}
+${beforeSection}
+
+Current version (each line starts with its file line number):
+\`\`\`${lang}
+${code}
+\`\`\`
+
+Diff from HEAD:
+\`\`\`diff
+${diffText}
+\`\`\`${omittedNote ? `\n\n${omittedNote}` : ""}
+${contextSection}
+Explain how the behavior of the ${kindLabel} \`${name}\` at ${displayPath ?? relativePath}:${startLine} changed since the last commit.
+
+${buildExperienceInstruction(experienceLevel)}
+
+${modeInstruction}
+
+Structure your response with these headings (skip any section if nothing meaningful to say):
+${sections.map((s) => `### ${s}`).join("\n")}`;
+  };
+
+  const full = render(before, numbered.join("\n"), diff);
+  if (tokenBudget == null || estimateTokens(full) <= tokenBudget) return full;
+
+  const withoutHead = render("", numbered.join("\n"), diff);
+  if (estimateTokens(withoutHead) + OMITTED_NOTE_TOKENS <= tokenBudget) {
+    return render(
+      "",
+      numbered.join("\n"),
+      diff,
+      "Omitted to fit the model's context window: the HEAD version. Reconstruct it from the diff."
+    );
+  }
+
+  // The diff gets up to half of what is left; the current version takes the rest.
+  const overhead = estimateTokens(render("", "", "")) + OMITTED_NOTE_TOKENS;
+  const diffLines = diff.split("\n");
+  const fittedDiff = truncateMiddle(diffLines, Math.floor((tokenBudget - overhead) / 2), (from, to) =>
+    `... [${to - from + 1} diff lines omitted] ...`
+  );
+  const fitted = truncateMiddle(
+    numbered,
+    tokenBudget - overhead - estimateTokens(fittedDiff.text),
+    (from, to) => `${" ".repeat(width)}| ... [lines ${startLine + from}-${startLine + to} omitted] ...`
+  );
+  const omitted = [
+    "the HEAD version",
+    fitted.omitted
+      ? `current lines ${startLine + fitted.omitted.from}-${startLine + fitted.omitted.to} (marked in the block)`
+      : "",
+    fittedDiff.omitted ? "part of the diff (marked)" : "",
+  ].filter(Boolean);
+  return render(
+    "",
+    fitted.text,
+    fittedDiff.text,
+    `Omitted to fit the model's context window: ${omitted.join("; ")}. Do not guess at omitted code; say so where it matters.`
+  );
 }
@@ -0,0 +1,338 @@
+import * as vscode from "vscode";
+import type { ExplanationMode } from "./config";
+import {
+  BUILT_IN_USER_TEMPLATE,
+  PLACEHOLDER_RE,
+  PROMPT_PLACEHOLDERS,
+  SYSTEM_PROMPT,
+  categorizeKind,
+} from "./promptBuilder";
+
+const TEMPLATE_DIR = ".symfocus/prompts";
+const SETTING = "symfocus.prompts.useWorkspaceTemplates";
+
+/**
+ * A `.symfocus/prompts/*.md` file. Optional front matter selects when it applies
+ * (`languages`, `kinds`, `modes`) and, for user templates, changes the section
+ * list (`sections`, `addSections`). The body replaces the built-in prompt.
+ */
+export type PromptTemplate = {
+  /** Workspace-relative path, for logs and the quick pick. */
+  path: string;
+  uri: vscode.Uri;
+  role: "system" | "user";
+  languages?: string[];
+  kinds?: string[];
+  modes?: ExplanationMode[];
+  sections?: string[];
+  addSections?: string[];
+  body: string;
+};
+
+type LoadedFile = { path: string; uri: vscode.Uri; template?: PromptTemplate; errors: string[] };
+
+const FRONT_MATTER_KEYS = ["role", "languages", "kinds", "modes", "sections", "addSections"];
+const MODES: ExplanationMode[] = ["quick", "standard", "deep"];
+/** Kind labels from `getKindLabel` plus the categories they map to. */
+const KINDS = [
+  "function", "method", "constructor", "class", "struct", "interface", "variable", "property",
+  "field", "constant", "enum", "enum member", "module", "namespace", "package", "file",
+  "type parameter", "type", "other",
+];
+
+let files: LoadedFile[] = [];
+
+/** `a, b` or `[a, b]`, with optional quotes around items. */
+function parseList(value: string): string[] {
+  return value
+    .replace(/^\[|\]$/g, "")
+    .split(",")
+    .map((v) => v.trim().replace(/^["']|["']$/g, ""))
+    .filter((v) => v.length > 0);
+}
+
+/** Parses one template file. Any error makes the whole file invalid. */
+function parseTemplate(text: string, path: string, uri: vscode.Uri): LoadedFile {
+  const errors: string[] = [];
+  const meta: Record<string, string[] | string> = {};
+  let body = text.replace(/\r\n/g, "\n");
+
+  if (body.startsWith("---\n")) {
+    const end = body.indexOf("\n---", 3);
+    if (end < 0) {
+      return { path, uri, errors: ["front matter has no closing ---"] };
+    }
+    const lines = body.slice(4, end).split("\n");
+    body = body.slice(end + 4).replace(/^[^\n]*\n?/, "");
+    lines.forEach((line, i) => {
+      if (!line.trim() || line.trim().startsWith("#")) return;
+      const m = /^\s*([A-Za-z]+)\s*:\s*(.*)$/.exec(line);
+      if (!m) {
+        errors.push(`front matter line ${i + 2}: expected "key: value"`);
+      } else if (!FRONT_MATTER_KEYS.includes(m[1])) {
+        errors.push(`unknown front matter key "${m[1]}" (expected ${FRONT_MATTER_KEYS.join(", ")})`);
+      } else {
+        meta[m[1]] = m[1] === "role" ? m[2].trim() : parseList(m[2]);
+      }
+    });
+  }
+
+  const role = (meta.role as string | undefined) ?? "user";
+  if (role !== "user" && role !== "system") {
+    errors.push(`role must be "user" or "system", not "${role}"`);
+  }
+  const modes = meta.modes as string[] | undefined;
+  for (const mode of modes ?? []) {
+    if (!MODES.includes(mode as ExplanationMode)) {
+      errors.push(`unknown mode "${mode}" (expected ${MODES.join(", ")})`);
+    }
+  }
+  const kinds = (meta.kinds as string[] | undefined)?.map((k) => k.toLowerCase());
+  for (const kind of kinds ?? []) {
+    if (!KINDS.includes(kind)) errors.push(`unknown kind "${kind}"`);
+  }
+
+  body = body.trim();
+  const placeholders = [...body.matchAll(PLACEHOLDER_RE)].map((m) => m[1]);
+  if (role === "system") {
+    if (placeholders.length > 0) {
+      errors.push(`placeholders like {{${placeholders[0]}}} are only supported in user templates`);
+    }
+    if (meta.sections || meta.addSections) {
+      errors.push("sections and addSections apply to user templates");
+    }
+    if (!body) errors.push("system template has no text");
+  } else {
+    for (const name of new Set(placeholders)) {
+      if (!(PROMPT_PLACEHOLDERS as readonly string[]).includes(name)) {
+        errors.push(`unknown placeholder {{${name}}} (known: ${PROMPT_PLACEHOLDERS.join(", ")})`);
+      }
+    }
+    if (body && !placeholders.includes("source")) {
+      errors.push("user template must include {{source}}");
+    }
+    if (!body && !meta.sections && !meta.addSections) {
+      errors.push("template has no text and no sections or addSections");
+    }
+  }
+
+  if (errors.length > 0) return { path, uri, errors };
+  return {
+    path,
+    uri,
+    errors,
+    template: {
+      path,
+      uri,
+      role: role as PromptTemplate["role"],
+      ...(meta.languages && { languages: meta.languages as string[] }),
+      ...(kinds && { kinds }),
+      ...(modes && { modes: modes as ExplanationMode[] }),
+      ...(meta.sections && { sections: meta.sections as string[] }),
+      ...(meta.addSections && { addSections: meta.addSections as string[] }),
+      body,
+    },
+  };
+}
+
+async function loadTemplates(log: (msg: string) => void): Promise<void> {
+  const uris = await vscode.workspace.findFiles(`${TEMPLATE_DIR}/*.md`);
+  const loaded = await Promise.all(
+    uris.map(async (uri) => {
+      const path = vscode.workspace.asRelativePath(uri);
+      try {
+        const text = new TextDecoder().decode(await vscode.workspace.fs.readFile(uri));
+        return parseTemplate(text, path, uri);
+      } catch (e) {
+        return { path, uri, errors: [`cannot read: ${e instanceof Error ? e.message : String(e)}`] };
+      }
+    })
+  );
+  files = loaded.sort((a, b) => a.path.localeCompare(b.path));
+  for (const f of files) {
+    for (const err of f.errors) log(`Prompt template ${f.path}: ${err}`);
+  }
+  if (files.length > 0) {
+    const valid = files.filter((f) => f.template).length;
+    log(`Loaded ${valid} of ${files.length} prompt template(s)`);
+  }
+}
+
+function matches(t: PromptTemplate, languageId: string, kindLabel: string, mode: ExplanationMode): boolean {
+  const kind = kindLabel.toLowerCase();
+  return (
+    (!t.languages || t.languages.includes(languageId)) &&
+    (!t.kinds || t.kinds.includes(kind) || t.kinds.includes(categorizeKind(kindLabel))) &&
+    (!t.modes || t.modes.includes(mode))
+  );
+}
+
+function specificity(t: PromptTemplate): number {
+  return (t.languages ? 1 : 0) + (t.kinds ? 1 : 0) + (t.modes ? 1 : 0);
+}
+
+/**
+ * The system and user templates for a symbol in `doc`, from `doc`'s workspace
+ * folder. The template with the most matching selectors wins; ties go to the
+ * first path alphabetically.
+ */
+export function selectPromptTemplates(
+  doc: vscode.TextDocument,
+  kindLabel: string,
+  mode: ExplanationMode
+): { system?: PromptTemplate; user?: PromptTemplate } {
+  const folder = vscode.workspace.getWorkspaceFolder(doc.uri);
+  const candidates = files
+    .map((f) => f.template)
+    .filter((t): t is PromptTemplate => !!t)
+    .filter((t) => !folder || vscode.workspace.getWorkspaceFolder(t.uri)?.index === folder.index)
+    .filter((t) => matches(t, doc.languageId, kindLabel, mode));
+  const best = (role: PromptTemplate["role"]) =>
+    candidates
+      .filter((t) => t.role === role)
+      .reduce<PromptTemplate | undefined>(
+        (a, t) => (!a || specificity(t) > specificity(a) ? t : a),
+        undefined
+      );
+  return { system: best("system"), user: best("user") };
+}
+
+const USER_TEMPLATE_FILE = `---
+role: user
+# Uncomment to limit where this template applies (the most specific match wins):
+# languages: cpp, c
+# kinds: function, class
+# modes: standard, deep
+# Replace the section list, or add to it:
+# sections: Summary, Definition, Parameters, Returns
+# addSections: Thread Safety
+---
+${BUILT_IN_USER_TEMPLATE}
+`;
+
+const SYSTEM_TEMPLATE_FILE = `---
+role: system
+# languages: cpp, c
+---
+${SYSTEM_PROMPT}
+`;
+
+/** Writes a template seeded with the built-in prompt and opens it. */
+async function createFromBuiltIn(): Promise<void> {
+  const folder = vscode.workspace.workspaceFolders?.[0];
+  if (!folder) {
+    void vscode.window.showInformationMessage("Symfocus: Open a folder to add prompt templates.");
+    return;
+  }
+  const role = await vscode.window.showQuickPick(
+    [
+      { label: "User Prompt", description: "Layout, sections and context fields", role: "user" },
+      { label: "System Prompt", description: "Answer structure and rules", role: "system" },
+    ],
+    { placeHolder: "Which prompt to start from?" }
+  );
+  if (!role) return;
+  const name = await vscode.window.showInputBox({
+    prompt: `File name in ${TEMPLATE_DIR}/`,
+    value: role.role === "user" ? "default.md" : "system.md",
+    validateInput: (v) =>
+      /^[\w.-]+\.md$/.test(v.trim()) ? undefined : "Use a plain file name ending in .md.",
+  });
+  if (!name) return;
+
+  const uri = vscode.Uri.joinPath(folder.uri, TEMPLATE_DIR, name.trim());
+  let exists = true;
+  try {
+    await vscode.workspace.fs.stat(uri);
+  } catch {
+    exists = false;
+  }
+  if (exists) {
+    const overwrite = await vscode.window.showWarningMessage(
+      `Symfocus: ${TEMPLATE_DIR}/${name.trim()} exists. Replace it with the built-in prompt?`,
+      { modal: true },
+      "Replace"
+    );
+    if (overwrite !== "Replace") return;
+  }
+  const text = role.role === "user" ? USER_TEMPLATE_FILE : SYSTEM_TEMPLATE_FILE;
+  await vscode.workspace.fs.writeFile(uri, new TextEncoder().encode(text));
+  await vscode.window.showTextDocument(uri);
+}
+
+function setEnabled(value: boolean): Thenable<void> {
+  return vscode.workspace
+    .getConfiguration()
+    .update(
+      SETTING,
+      value,
+      vscode.workspace.workspaceFolders?.length
+        ? vscode.ConfigurationTarget.Workspace
+        : vscode.ConfigurationTarget.Global
+    );
+}
+
+function describeTemplate(f: LoadedFile): string {
+  if (!f.template) return `invalid: ${f.errors[0]}`;
+  const t = f.template;
+  return [
+    t.role,
+    t.languages?.join(", "),
+    t.kinds?.join(", "),
+    t.modes?.join(", "),
+  ]
+    .filter(Boolean)
+    .join(" · ");
+}
+
+/**
+ * Loads `.symfocus/prompts/*.md`, reloads on change, and registers **Prompt
+ * Templates**: open a template, start one from the built-in prompt, or switch
+ * back to the built-in prompts. Validation errors go to the output channel.
+ */
+export function registerPromptTemplates(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): void {
+  const reload = () =>
+    void loadTemplates(log).catch((e) =>
+      log(`Loading prompt templates failed: ${e instanceof Error ? e.message : String(e)}`)
+    );
+  const watcher = vscode.workspace.createFileSystemWatcher(`**/${TEMPLATE_DIR}/*.md`);
+  context.subscriptions.push(
+    watcher,
+    watcher.onDidCreate(reload),
+    watcher.onDidChange(reload),
+    watcher.onDidDelete(reload),
+    vscode.workspace.onDidChangeWorkspaceFolders(reload),
+    vscode.commands.registerCommand("symfocus.promptTemplates", async () => {
+      const enabled = vscode.workspace.getConfiguration().get<boolean>(SETTING) ?? true;
+      type Item = vscode.QuickPickItem & { run: () => unknown };
+      const items: Item[] = [
+        ...files.map((f) => ({
+          label: f.path,
+          description: describeTemplate(f),
+          run: () => vscode.window.showTextDocument(f.uri),
+        })),
+        { label: "", kind: vscode.QuickPickItemKind.Separator, run: () => {} },
+        { label: "$(add) New Template from Built-in…", run: createFromBuiltIn },
+        enabled
+          ? {
+              label: "$(discard) Reset to Built-in Prompts",
+              description: "Ignore workspace templates",
+              run: () => setEnabled(false),
+            }
+          : { label: "$(check) Use Workspace Templates", run: () => setEnabled(true) },
+      ];
+      const picked = await vscode.window.showQuickPick(items, {
+        placeHolder: enabled
+          ? files.length > 0
+            ? "Open a prompt template"
+            : `No templates in ${TEMPLATE_DIR}/ yet`
+          : "Workspace templates are off; the built-in prompts are used",
+      });
+      await picked?.run();
+    })
+  );
+  reload();
+}
@@ -0,0 +1,152 @@
+import type { StreamResult } from "./llm";
+
+const BASE_DELAY_MS = 1000;
+const MAX_DELAY_MS = 30_000;
+/** Server-provided waits longer than this are not worth holding the panel for. */
+const MAX_SERVER_DELAY_MS = 60_000;
+const COUNTDOWN_TICK_MS = 1000;
+
+export function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+/**
+ * Parses a reset hint as used by `Retry-After` and the `x-ratelimit-reset-*` family:
+ * seconds ("4", "1.5"), Go-style durations ("6m0s", "20ms"), epoch seconds, or an
+ * HTTP date. Returns milliseconds from now, or undefined when unparseable.
+ */
+function parseResetValue(value: string, now: number): number | undefined {
+  const v = value.trim();
+  if (v === "") return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(v)) {
+    const n = parseFloat(v);
+    // Large values are epoch seconds (some gateways send absolute reset times).
+    return n > 1e9 ? n * 1000 - now : n * 1000;
+  }
+
+  const duration = v.match(/^(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/);
+  if (duration && duration.slice(1).some((g) => g != null)) {
+    const [, h, m, s, ms] = duration;
+    return (
+      parseFloat(h ?? "0") * 3_600_000 +
+      parseFloat(m ?? "0") * 60_000 +
+      parseFloat(s ?? "0") * 1000 +
+      parseFloat(ms ?? "0")
+    );
+  }
+
+  const date = Date.parse(v);
+  if (!isNaN(date)) return date - now;
+  return undefined;
+}
+
+/**
+ * Reads how long the server asks us to wait: `Retry-After` first, then the longest
+ * `x-ratelimit-reset-*` value (requests and tokens reset independently).
+ */
+export function parseRetryAfterMs(headers: Headers): number | undefined {
+  const now = Date.now();
+  const retryAfter = headers.get("retry-after");
+  if (retryAfter) {
+    const ms = parseResetValue(retryAfter, now);
+    if (ms != null) return Math.max(0, ms);
+  }
+
+  let longest: number | undefined;
+  headers.forEach((value, key) => {
+    if (!key.toLowerCase().startsWith("x-ratelimit-reset")) return;
+    const ms = parseResetValue(value, now);
+    if (ms != null && (longest === undefined || ms > longest)) longest = ms;
+  });
+  return longest != null ? Math.max(0, longest) : undefined;
+}
+
+/** Exponential backoff with equal jitter: half fixed, half random. `attempt` is 1-based. */
+export function backoffMs(attempt: number): number {
+  const exp = Math.min(MAX_DELAY_MS, BASE_DELAY_MS * 2 ** (attempt - 1));
+  return exp / 2 + Math.random() * (exp / 2);
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    if (signal?.aborted) return resolve();
+    const onAbort = () => {
+      clearTimeout(id);
+      resolve();
+    };
+    const id = setTimeout(() => {
+      signal?.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+function retryReason(err: Extract<StreamResult, { type: "error" }>): string {
+  if (err.status === 429) return "Rate limited";
+  if (err.status != null) return `Server error (${err.status})`;
+  return "Connection failed";
+}
+
+/**
+ * Re-runs `start` when it fails before yielding any chunk with a retryable error
+ * (408, 429, 5xx or a network failure). Waits `retryAfterMs` when the server sent
+ * one, otherwise exponential backoff with jitter. While waiting, yields a `retry`
+ * event every second so the caller can show a countdown. Once a chunk has been
+ * yielded, errors pass through untouched. `maxAttempts` counts the first try.
+ */
+export async function* streamWithRetry(
+  start: () => AsyncGenerator<StreamResult>,
+  maxAttempts: number,
+  signal?: AbortSignal,
+  log: (msg: string) => void = () => {}
+): AsyncGenerator<StreamResult> {
+  for (let attempt = 1; ; attempt++) {
+    let sawChunk = false;
+    let failure: Extract<StreamResult, { type: "error" }> | undefined;
+
+    for await (const result of start()) {
+      if (
+        result.type === "error" &&
+        !sawChunk &&
+        result.retryable &&
+        attempt < maxAttempts &&
+        !signal?.aborted
+      ) {
+        failure = result;
+        break;
+      }
+      if (result.type === "chunk") sawChunk = true;
+      yield result;
+    }
+
+    if (!failure) return;
+
+    const serverDelay =
+      failure.retryAfterMs != null
+        ? Math.min(failure.retryAfterMs, MAX_SERVER_DELAY_MS)
+        : undefined;
+    const delay = Math.round(serverDelay ?? backoffMs(attempt));
+    const reason = retryReason(failure);
+    log(`retry ${attempt + 1}/${maxAttempts} in ${delay}ms: ${failure.message}`);
+
+    let remaining = delay;
+    while (remaining > 0) {
+      yield {
+        type: "retry",
+        reason,
+        attempt: attempt + 1,
+        maxAttempts,
+        remainingMs: remaining,
+      };
+      const step = Math.min(COUNTDOWN_TICK_MS, remaining);
+      await sleep(step, signal);
+      if (signal?.aborted) {
+        yield { type: "error", message: "Request aborted.", aborted: true };
+        return;
+      }
+      remaining -= step;
+    }
+  }
+}
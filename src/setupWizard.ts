@@ -0,0 +1,363 @@
+import * as vscode from "vscode";
+import {
+  getSymfocusConfig,
+  targetFor,
+  type EndpointProfile,
+  type HttpSettings,
+  type LlmProvider,
+} from "./config";
+import { streamWithFailover } from "./llm";
+import { fetchModelList } from "./modelList";
+import { storeApiKey } from "./apiKeyStore";
+
+const TEST_TIMEOUT_MS = 30_000;
+
+type ProviderChoice = {
+  provider: LlmProvider;
+  label: string;
+  detail: string;
+  defaultUrl: string;
+  urlPrompt: string;
+};
+
+const PROVIDER_CHOICES: ProviderChoice[] = [
+  {
+    provider: "openai",
+    label: "OpenAI-compatible",
+    detail: "OpenAI, OpenRouter, LiteLLM, vLLM, LM Studio… (/chat/completions)",
+    defaultUrl: "https://api.openai.com/v1",
+    urlPrompt: "Base URL without /chat/completions",
+  },
+  {
+    provider: "openai-responses",
+    label: "OpenAI Responses API",
+    detail: "Servers and models that only speak /responses",
+    defaultUrl: "https://api.openai.com/v1",
+    urlPrompt: "Base URL without /responses",
+  },
+  {
+    provider: "anthropic",
+    label: "Anthropic",
+    detail: "Native Messages API (/v1/messages)",
+    defaultUrl: "https://api.anthropic.com/v1",
+    urlPrompt: "Base URL without /messages",
+  },
+  {
+    provider: "ollama",
+    label: "Ollama",
+    detail: "Local Ollama server (/api/chat), no key needed",
+    defaultUrl: "http://localhost:11434",
+    urlPrompt: "Ollama server root",
+  },
+  {
+    provider: "azure",
+    label: "Azure OpenAI",
+    detail: "Deployment on an Azure OpenAI resource",
+    defaultUrl: "",
+    urlPrompt: "Resource URL, e.g. https://my-resource.openai.azure.com",
+  },
+];
+
+type TestReport = {
+  ok: boolean;
+  /** Time to the first text (or to the error). */
+  firstChunkMs?: number;
+  totalMs: number;
+  chunks: number;
+  text: string;
+  error?: string;
+};
+
+function validateUrl(value: string): string | undefined {
+  try {
+    const u = new URL(value.trim());
+    return u.protocol === "http:" || u.protocol === "https:" ? undefined : "Use an http(s) URL.";
+  } catch {
+    return "Enter a valid URL.";
+  }
+}
+
+/**
+ * Sends a one-line prompt through the normal streaming path (no retries) and
+ * measures time to first chunk and total latency. More than one chunk means the
+ * server streams; a single chunk usually means a proxy buffers the response.
+ */
+async function runConnectionTest(
+  ep: EndpointProfile,
+  http: HttpSettings,
+  signal: AbortSignal
+): Promise<TestReport> {
+  const started = Date.now();
+  const report: TestReport = { ok: false, totalMs: 0, chunks: 0, text: "" };
+  for await (const result of streamWithFailover(
+    [ep],
+    [{ role: "user", content: "Reply with the single word OK." }],
+    signal,
+    { http, maxTokens: 64, maxAttempts: 1 }
+  )) {
+    if (result.type === "chunk") {
+      report.firstChunkMs ??= Date.now() - started;
+      report.chunks++;
+      report.text += result.content;
+    } else if (result.type === "done") {
+      report.ok = true;
+    } else if (result.type === "error") {
+      report.error = result.message;
+      report.firstChunkMs ??= Date.now() - started;
+    }
+  }
+  report.totalMs = Date.now() - started;
+  return report;
+}
+
+function describeReport(r: TestReport): string {
+  if (!r.ok) {
+    return `Error after ${r.totalMs} ms:\n${r.error ?? "The stream ended without a reply."}`;
+  }
+  const lines = [
+    `First text after ${r.firstChunkMs ?? r.totalMs} ms, finished after ${r.totalMs} ms.`,
+    r.chunks > 1
+      ? `Streaming works (${r.chunks} chunks).`
+      : r.chunks === 1
+        ? "The reply arrived in one piece; a proxy may be buffering the stream."
+        : "The model returned no text (reasoning models may spend the tiny test budget on thinking).",
+  ];
+  if (r.text.trim()) lines.push(`Reply: "${r.text.trim().slice(0, 80)}"`);
+  return lines.join("\n");
+}
+
+/** Picks a model from the endpoint's list, falling back to free text when listing fails. */
+async function pickModel(
+  ep: EndpointProfile,
+  http: HttpSettings,
+  log: (msg: string) => void
+): Promise<string | undefined> {
+  let listError: string | undefined;
+  if (ep.provider !== "azure") {
+    try {
+      const models = await vscode.window.withProgress(
+        { location: vscode.ProgressLocation.Notification, title: "Symfocus: Fetching models…" },
+        () => fetchModelList(ep, http)
+      );
+      if (models.length > 0) {
+        const picked = await vscode.window.showQuickPick(
+          models.map((m) => ({
+            label: m.id,
+            description: [
+              m.contextLength != null ? `${Math.round(m.contextLength / 1000)}K context` : "",
+              m.id === ep.model ? "current" : "",
+            ]
+              .filter(Boolean)
+              .join(" · "),
+          })),
+          { title: "Symfocus: Model (4/5)", placeHolder: "Pick a model", ignoreFocusOut: true }
+        );
+        return picked?.label;
+      }
+      listError = "The endpoint returned no models.";
+    } catch (e) {
+      listError = e instanceof Error ? e.message : String(e);
+      log(`Configure: model list failed: ${listError}`);
+    }
+  }
+  return vscode.window.showInputBox({
+    title: "Symfocus: Model (4/5)",
+    prompt: listError
+      ? `Could not list models (${listError}). Type the model name.`
+      : "Model name, used to label usage and cost (optional for Azure)",
+    value: ep.model,
+    ignoreFocusOut: true,
+  });
+}
+
+/**
+ * Saved settings that a workspace folder or a `[language]` block still overrides
+ * with another value, as "key (scope)".
+ */
+function shadowedSettings(values: [string, unknown][]): string[] {
+  const out: string[] = [];
+  for (const [key, value] of values) {
+    for (const folder of vscode.workspace.workspaceFolders ?? []) {
+      if (vscode.workspace.getConfiguration(undefined, folder.uri).get(key) !== value) {
+        out.push(`${key} (folder ${folder.name})`);
+      }
+    }
+    for (const languageId of vscode.workspace.getConfiguration().inspect(key)?.languageIds ?? []) {
+      if (vscode.workspace.getConfiguration(undefined, { languageId }).get(key) !== value) {
+        out.push(`${key} ([${languageId}])`);
+      }
+    }
+  }
+  return out;
+}
+
+/**
+ * Writes each setting to the scope that already sets it (see `targetFor`) and the
+ * key to the secret explanations read. Returns what still shadows the saved values.
+ */
+async function saveSettings(
+  context: vscode.ExtensionContext,
+  ep: EndpointProfile,
+  apiKey: string | undefined
+): Promise<string[]> {
+  if (apiKey !== undefined) await storeApiKey(context.secrets, apiKey);
+  const values: [string, unknown][] = [
+    ["symfocus.provider", ep.provider],
+    ["symfocus.openai.baseUrl", ep.baseUrl],
+    ["symfocus.openai.model", ep.model],
+  ];
+  if (ep.azure) {
+    values.push(
+      ["symfocus.azure.deployment", ep.azure.deployment],
+      ["symfocus.azure.apiVersion", ep.azure.apiVersion]
+    );
+  }
+  const config = vscode.workspace.getConfiguration();
+  for (const [key, value] of values) await config.update(key, value, targetFor(key));
+  return shadowedSettings(values);
+}
+
+/**
+ * **Symfocus: Configure**: provider, URL, key, model, then a live test completion.
+ * Saves the flat endpoint settings where they are already set (user settings by
+ * default) and the key to secure storage, and warns about overrides that still win.
+ */
+async function configure(context: vscode.ExtensionContext, log: (msg: string) => void): Promise<void> {
+  const cfg = getSymfocusConfig();
+  if (cfg.profiles.length > 0) {
+    const go = await vscode.window.showWarningMessage(
+      "Symfocus: symfocus.profiles is set and takes precedence over the endpoint this wizard configures.",
+      "Continue"
+    );
+    if (go !== "Continue") return;
+  }
+
+  const choice = await vscode.window.showQuickPick(
+    PROVIDER_CHOICES.map((c) => ({
+      ...c,
+      description: c.provider === cfg.provider && cfg.baseUrl ? "current" : undefined,
+    })),
+    { title: "Symfocus: Provider (1/5)", placeHolder: "Which API does your endpoint speak?", ignoreFocusOut: true }
+  );
+  if (!choice) return;
+
+  const sameProvider = choice.provider === cfg.provider;
+  const baseUrl = await vscode.window.showInputBox({
+    title: "Symfocus: Endpoint (2/5)",
+    prompt: choice.urlPrompt,
+    value: (sameProvider && cfg.baseUrl) || choice.defaultUrl,
+    validateInput: validateUrl,
+    ignoreFocusOut: true,
+  });
+  if (baseUrl === undefined) return;
+
+  let azure: EndpointProfile["azure"];
+  if (choice.provider === "azure") {
+    const deployment = await vscode.window.showInputBox({
+      title: "Symfocus: Azure deployment (2/5)",
+      prompt: "Deployment name",
+      value: cfg.azure.deployment,
+      validateInput: (v) => (v.trim() ? undefined : "Required."),
+      ignoreFocusOut: true,
+    });
+    if (deployment === undefined) return;
+    const apiVersion = await vscode.window.showInputBox({
+      title: "Symfocus: Azure API version (2/5)",
+      prompt: "api-version query parameter",
+      value: cfg.azure.apiVersion,
+      validateInput: (v) => (v.trim() ? undefined : "Required."),
+      ignoreFocusOut: true,
+    });
+    if (apiVersion === undefined) return;
+    azure = { deployment: deployment.trim(), apiVersion: apiVersion.trim() };
+  }
+
+  const storedKey = cfg.apiKey.trim();
+  const enteredKey = await vscode.window.showInputBox({
+    title: "Symfocus: API key (3/5)",
+    prompt:
+      (choice.provider === "ollama" ? "Optional for Ollama. " : "") +
+      (storedKey ? "Leave empty to keep the current key." : "Stored in VS Code's secure storage."),
+    password: true,
+    ignoreFocusOut: true,
+    validateInput: (v) =>
+      v.trim() || storedKey || choice.provider === "ollama" ? undefined : "Required.",
+  });
+  if (enteredKey === undefined) return;
+  const apiKey = enteredKey.trim() || storedKey;
+
+  const ep: EndpointProfile = {
+    name: "default",
+    provider: choice.provider,
+    baseUrl: baseUrl.trim(),
+    apiKey,
+    model: sameProvider ? cfg.model : "",
+    headers: cfg.headers,
+    ...(cfg.authScheme && { authScheme: cfg.authScheme }),
+    ...(azure && { azure }),
+    timeoutMs: TEST_TIMEOUT_MS,
+  };
+
+  const model = await pickModel(ep, cfg.http, log);
+  if (model === undefined) return;
+  ep.model = model.trim() || azure?.deployment || "";
+  if (!ep.model) {
+    void vscode.window.showErrorMessage("Symfocus: A model is required.");
+    return;
+  }
+
+  for (;;) {
+    const report = await vscode.window.withProgress(
+      {
+        location: vscode.ProgressLocation.Notification,
+        title: "Symfocus: Testing connection (5/5)…",
+        cancellable: true,
+      },
+      (_progress, token) => {
+        const abort = new AbortController();
+        token.onCancellationRequested(() => abort.abort());
+        return runConnectionTest(ep, cfg.http, abort.signal);
+      }
+    );
+    log(`Configure test ${ep.provider} ${ep.baseUrl} ${ep.model}: ${report.ok ? "ok" : report.error}`);
+
+    const actions = report.ok ? ["Save"] : ["Retry", "Save Anyway"];
+    const action = await (report.ok
+      ? vscode.window.showInformationMessage(
+          "Symfocus: Connection works.",
+          { modal: true, detail: describeReport(report) },
+          ...actions
+        )
+      : vscode.window.showErrorMessage(
+          "Symfocus: Connection test failed.",
+          { modal: true, detail: describeReport(report) },
+          ...actions
+        ));
+    if (action === "Retry") continue;
+    if (action === "Save" || action === "Save Anyway") {
+      const shadowed = await saveSettings(context, ep, enteredKey.trim() ? enteredKey : undefined);
+      if (shadowed.length > 0) {
+        log(`Configure: still overridden: ${shadowed.join(", ")}`);
+        const open = await vscode.window.showWarningMessage(
+          `Symfocus: Saved ${choice.label} endpoint, but more specific settings still override it: ${shadowed.join(", ")}.`,
+          "Open Settings"
+        );
+        if (open) void vscode.commands.executeCommand("workbench.action.openSettings", "symfocus");
+      } else {
+        void vscode.window.showInformationMessage(
+          `Symfocus: Saved ${choice.label} endpoint with model "${ep.model}".`
+        );
+      }
+    }
+    return;
+  }
+}
+
+export function registerConfigureCommand(
+  context: vscode.ExtensionContext,
+  log: (msg: string) => void
+): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.configure", () => configure(context, log))
+  );
+}
@@ -69,7 +69,7 @@ function symbolKindLabel(kind: vscode.SymbolKind): string {
  * extraction; `selectionRange` is exposed on `DocumentSymbol` for callers that need it.
  *
  * @param symbols - Root document symbols from the LSP.
- * @param position - Cursor position.
+ * @param position - Cursor position, or a range that must lie entirely inside the symbol.
  * @param parentName - Name of the containing symbol when recursing; used to set `containerName`.
  * @returns The innermost matching symbol and its container name, or undefined.
  * @see DocumentSymbol
@@ -77,7 +77,7 @@ function symbolKindLabel(kind: vscode.SymbolKind): string {
  */
 function findInDocumentSymbols(
   symbols: vscode.DocumentSymbol[],
-  position: vscode.Position,
+  position: vscode.Position | vscode.Range,
   parentName?: string
 ): { symbol: vscode.DocumentSymbol; containerName: string | undefined } | undefined {
   let best: { symbol: vscode.DocumentSymbol; containerName: string | undefined } | undefined;
@@ -101,13 +101,13 @@ function findInDocumentSymbols(
  * `DocumentSymbol[]` is not provided.
  *
  * @param infos - Flat symbol list from the LSP.
- * @param position - Cursor position.
+ * @param position - Cursor position, or a range that must lie entirely inside the symbol.
  * @returns The smallest containing symbol, or undefined.
  * @see SymbolInformation
  */
 function findInSymbolInformation(
   infos: vscode.SymbolInformation[],
-  position: vscode.Position
+  position: vscode.Position | vscode.Range
 ): vscode.SymbolInformation | undefined {
   let best: vscode.SymbolInformation | undefined;
   let bestSpan = 0;
@@ -335,6 +335,166 @@ export async function findSymbolAtPosition(
   return info;
 }
 
+/**
+ * Innermost symbol whose range contains all of `range`, for Explain Selection.
+ * No word fallback and no definition or reference lookups; null when the document
+ * has no symbols or none spans the range.
+ */
+export async function findEnclosingSymbol(
+  document: vscode.TextDocument,
+  range: vscode.Range
+): Promise<SymbolInfo | null> {
+  const raw = await vscode.commands.executeCommand<
+    vscode.DocumentSymbol[] | vscode.SymbolInformation[]
+  >("vscode.executeDocumentSymbolProvider", document.uri);
+  if (!raw || !Array.isArray(raw) || raw.length === 0) return null;
+
+  if ("children" in raw[0]) {
+    const res = findInDocumentSymbols(raw as vscode.DocumentSymbol[], range);
+    if (!res) return null;
+    const sym = res.symbol;
+    return {
+      name: sym.name,
+      kind: sym.kind,
+      range: sym.range,
+      source: document.getText(sym.range),
+      ...(sym.detail && sym.detail.length > 0 && { detail: sym.detail }),
+      ...(res.containerName != null && { containerName: res.containerName }),
+      isDeprecated: sym.tags?.includes(vscode.SymbolTag.Deprecated) ?? false,
+      selectionRange: sym.selectionRange,
+    };
+  }
+  const sym = findInSymbolInformation(raw as vscode.SymbolInformation[], range);
+  if (!sym) return null;
+  return {
+    name: sym.name,
+    kind: sym.kind,
+    range: sym.location.range,
+    source: document.getText(sym.location.range),
+    ...(sym.containerName && sym.containerName.length > 0 && { containerName: sym.containerName }),
+    isDeprecated: sym.tags?.includes(vscode.SymbolTag.Deprecated) ?? false,
+  };
+}
+
+/**
+ * Symbol called `name` directly inside `containerName` (undefined for top level),
+ * for finding the same symbol in another version of a file. Prefers a symbol of
+ * the same `kind`; null when no symbol has that name and container.
+ */
+export async function findSymbolByName(
+  document: vscode.TextDocument,
+  name: string,
+  containerName: string | undefined,
+  kind: vscode.SymbolKind
+): Promise<SymbolInfo | null> {
+  const raw = await vscode.commands.executeCommand<
+    vscode.DocumentSymbol[] | vscode.SymbolInformation[]
+  >("vscode.executeDocumentSymbolProvider", document.uri);
+  if (!raw || !Array.isArray(raw) || raw.length === 0) return null;
+
+  const matches: SymbolInfo[] = [];
+  if ("children" in raw[0]) {
+    const walk = (symbols: vscode.DocumentSymbol[], parentName: string | undefined) => {
+      for (const s of symbols) {
+        if (s.name === name && parentName === containerName) {
+          matches.push({
+            name: s.name,
+            kind: s.kind,
+            range: s.range,
+            source: document.getText(s.range),
+            ...(s.detail && s.detail.length > 0 && { detail: s.detail }),
+            ...(parentName != null && { containerName: parentName }),
+            selectionRange: s.selectionRange,
+          });
+        }
+        if (s.children?.length) walk(s.children, s.name);
+      }
+    };
+    walk(raw as vscode.DocumentSymbol[], undefined);
+  } else {
+    for (const s of raw as vscode.SymbolInformation[]) {
+      if (s.name !== name || (s.containerName || undefined) !== containerName) continue;
+      matches.push({
+        name: s.name,
+        kind: s.kind,
+        range: s.location.range,
+        source: document.getText(s.location.range),
+        ...(s.containerName && { containerName: s.containerName }),
+      });
+    }
+  }
+  return matches.find((m) => m.kind === kind) ?? matches[0] ?? null;
+}
+
+/** One entry of `getDocumentOutline`. Lines are 1-based. */
+export type OutlineSymbol = {
+  name: string;
+  kind: string;
+  startLine: number;
+  endLine: number;
+  /** 0 for top-level symbols. */
+  depth: number;
+  detail?: string;
+  /** The line holding the identifier, trimmed, so modifiers like `export` or `pub` are visible. */
+  declaration: string;
+  /** Start of the identifier, for resolving the symbol again with `findSymbolAtPosition`. */
+  namePosition: vscode.Position;
+};
+
+const MAX_DECLARATION_CHARS = 160;
+
+/**
+ * Flattens the document's symbol tree in source order, down to `maxDepth` levels
+ * below the top. Flat `SymbolInformation[]` results all get depth 0. Empty when the
+ * language has no symbol provider.
+ */
+export async function getDocumentOutline(
+  document: vscode.TextDocument,
+  maxDepth = 1
+): Promise<OutlineSymbol[]> {
+  const raw = await vscode.commands.executeCommand<
+    vscode.DocumentSymbol[] | vscode.SymbolInformation[]
+  >("vscode.executeDocumentSymbolProvider", document.uri);
+  if (!raw || !Array.isArray(raw) || raw.length === 0) return [];
+
+  const entry = (
+    name: string,
+    kind: vscode.SymbolKind,
+    range: vscode.Range,
+    namePosition: vscode.Position,
+    depth: number,
+    detail?: string
+  ): OutlineSymbol => ({
+    name,
+    kind: symbolKindLabel(kind),
+    startLine: range.start.line + 1,
+    endLine: range.end.line + 1,
+    depth,
+    ...(detail && { detail }),
+    declaration: document.lineAt(namePosition.line).text.trim().slice(0, MAX_DECLARATION_CHARS),
+    namePosition,
+  });
+
+  const out: OutlineSymbol[] = [];
+  if ("children" in raw[0]) {
+    const walk = (symbols: vscode.DocumentSymbol[], depth: number) => {
+      for (const s of [...symbols].sort((a, b) => a.range.start.compareTo(b.range.start))) {
+        out.push(entry(s.name, s.kind, s.range, s.selectionRange.start, depth, s.detail));
+        if (depth < maxDepth && s.children?.length) walk(s.children, depth + 1);
+      }
+    };
+    walk(raw as vscode.DocumentSymbol[], 0);
+  } else {
+    const infos = [...(raw as vscode.SymbolInformation[])].sort((a, b) =>
+      a.location.range.start.compareTo(b.location.range.start)
+    );
+    for (const s of infos) {
+      out.push(entry(s.name, s.kind, s.location.range, s.location.range.start, 0));
+    }
+  }
+  return out;
+}
+
 export function getKindLabel(kind: vscode.SymbolKind): string {
   return symbolKindLabel(kind);
 }
@@ -2,6 +2,8 @@ import * as vscode from "vscode";
 import * as fs from "fs";
 import * as path from "path";
 import { getHtml, WebviewUris } from "./webview/template";
+import { getSymfocusConfig, validateApiConfig } from "./config";
+import { historyNav } from "./explanationHistory";
 
 interface TextMatch {
   uri: vscode.Uri;
@@ -223,6 +225,20 @@ export type SymfocusMessage =
       };
     }
   | { type: "status"; status: string; badge?: string }
+  | { type: "usage"; text: string }
+  | { type: "reasoning"; text: string; done?: boolean }
+  | { type: "profile"; name: string; model: string }
+  /** Settings in effect for the document; `overrides` lists language/folder overrides. */
+  | { type: "effective"; mode: string; level: string; model: string; overrides: string[] }
+  | { type: "cached"; createdAt: number; model: string }
+  /** Whether the placeholder should link to **Symfocus: Configure**. */
+  | { type: "setup"; needed: boolean }
+  /** The explanation finished; follow-up questions can be asked. */
+  | { type: "followUpReady" }
+  /** Rendered answer so far for the latest follow-up question. */
+  | { type: "followUpShow"; html: string }
+  | { type: "followUpDone"; error?: string }
+  | { type: "historyNav"; canBack: boolean; canForward: boolean }
   | { type: "loading" };
 
 export class SymfocusViewProvider implements vscode.WebviewViewProvider {
@@ -252,7 +268,11 @@ export class SymfocusViewProvider implements vscode.WebviewViewProvider {
         .toString(),
     };
 
-    webviewView.webview.html = getHtml(webviewView.webview.cspSource, uris);
+    webviewView.webview.html = getHtml(
+      webviewView.webview.cspSource,
+      uris,
+      !validateApiConfig(getSymfocusConfig()).ok
+    );
 
     this._context.subscriptions.push(
       webviewView.webview.onDidReceiveMessage((msg) => {
@@ -266,15 +286,36 @@ export class SymfocusViewProvider implements vscode.WebviewViewProvider {
           );
         } else if (msg?.type === "goToSymbol" && typeof msg.symbol === "string") {
           void goToSymbolSmart(msg.symbol);
+        } else if (msg?.type === "regenerate") {
+          void vscode.commands.executeCommand("symfocus.regenerateExplanation");
+        } else if (msg?.type === "configure") {
+          void vscode.commands.executeCommand("symfocus.configure");
+        } else if (msg?.type === "followUp" && typeof msg.question === "string") {
+          void vscode.commands.executeCommand("symfocus.followUp", msg.question);
+        } else if (msg?.type === "history") {
+          void vscode.commands.executeCommand(
+            msg.direction < 0 ? "symfocus.historyBack" : "symfocus.historyForward"
+          );
+        }
+      }),
+      vscode.workspace.onDidChangeConfiguration((e) => {
+        if (e.affectsConfiguration("symfocus")) {
+          this.post({ type: "setup", needed: !validateApiConfig(getSymfocusConfig()).ok });
         }
       })
     );
+    this.post({ type: "historyNav", ...historyNav(this._context.workspaceState) });
   }
 
   post(msg: SymfocusMessage): void {
     this._view?.webview.postMessage(msg);
   }
 
+  /** True while the view is open on screen. */
+  get visible(): boolean {
+    return this._view?.visible ?? false;
+  }
+
   show(preserveFocus?: boolean): void {
     this._view?.show?.(preserveFocus);
   }
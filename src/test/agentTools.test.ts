@@ -0,0 +1,106 @@
+import * as assert from "assert";
+import { streamWithTools, type ToolStep } from "../agentTools";
+import type { ChatMessage, StreamResult, ToolDefinition } from "../llm";
+
+type Round = { messages: ChatMessage[]; tools: ToolDefinition[] | undefined };
+
+/** A `run` that replays one scripted reply per round and records what it was sent. */
+function scripted(replies: StreamResult[][], rounds: Round[]) {
+  return async function* (messages: ChatMessage[], tools: ToolDefinition[] | undefined) {
+    rounds.push({ messages: [...messages], tools });
+    yield* replies[rounds.length - 1];
+  };
+}
+
+async function collect(stream: AsyncGenerator<StreamResult | ToolStep>) {
+  const out: (StreamResult | ToolStep)[] = [];
+  for await (const r of stream) out.push(r);
+  return out;
+}
+
+const question: ChatMessage[] = [{ role: "user", content: "Explain it." }];
+const lookup = { id: "call_1", type: "function" as const, function: { name: "lookup", arguments: "{}" } };
+
+suite("streamWithTools", () => {
+  test("keeps the text of a tool round out of the answer but in the conversation", async () => {
+    const rounds: Round[] = [];
+    const out = await collect(
+      streamWithTools(
+        scripted(
+          [
+            [
+              { type: "chunk", content: "Let me look." },
+              { type: "toolCalls", calls: [lookup] },
+              { type: "done" },
+            ],
+            [{ type: "chunk", content: "The answer." }, { type: "done" }],
+          ],
+          rounds
+        ),
+        question,
+        3
+      )
+    );
+
+    assert.deepStrictEqual(
+      out.map((r) => r.type),
+      ["tool", "chunk", "done"]
+    );
+    assert.deepStrictEqual(out[1], { type: "chunk", content: "The answer." });
+    assert.strictEqual(rounds.length, 2);
+    assert.deepStrictEqual(rounds[1].messages[1], {
+      role: "assistant",
+      content: "Let me look.",
+      tool_calls: [lookup],
+    });
+    assert.strictEqual(rounds[1].messages[2].role, "tool");
+  });
+
+  test("passes a round's text through when the model answers without tools", async () => {
+    const out = await collect(
+      streamWithTools(
+        scripted([[{ type: "chunk", content: "A" }, { type: "chunk", content: "B" }, { type: "done" }]], []),
+        question,
+        3
+      )
+    );
+    assert.deepStrictEqual(out, [
+      { type: "chunk", content: "A" },
+      { type: "chunk", content: "B" },
+      { type: "done" },
+    ]);
+  });
+
+  test("keeps text that streamed before an error", async () => {
+    const out = await collect(
+      streamWithTools(
+        scripted([[{ type: "chunk", content: "Partial" }, { type: "error", message: "boom" }]], []),
+        question,
+        3
+      )
+    );
+    assert.deepStrictEqual(out, [
+      { type: "chunk", content: "Partial" },
+      { type: "error", message: "boom" },
+    ]);
+  });
+
+  test("sends the last round without tools", async () => {
+    const rounds: Round[] = [];
+    await collect(
+      streamWithTools(
+        scripted(
+          [
+            [{ type: "toolCalls", calls: [lookup] }, { type: "done" }],
+            [{ type: "chunk", content: "Done." }, { type: "done" }],
+          ],
+          rounds
+        ),
+        question,
+        2
+      )
+    );
+    assert.ok(rounds[0].tools && rounds[0].tools.length > 0);
+    assert.strictEqual(rounds[1].tools, undefined);
+  });
+});
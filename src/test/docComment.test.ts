@@ -0,0 +1,121 @@
+import * as assert from "assert";
+import * as vscode from "vscode";
+import { extractComment, placement, styleFor } from "../docComment";
+
+function style(languageId: string) {
+  const s = styleFor(languageId);
+  assert.ok(s, languageId);
+  return s;
+}
+
+/** Just enough of a TextDocument for `placement`. */
+function docOf(lines: string[]): vscode.TextDocument {
+  return {
+    lineCount: lines.length,
+    lineAt: (line: number) => ({ text: lines[line] }),
+  } as unknown as vscode.TextDocument;
+}
+
+function lines(range: vscode.Range): [number, number] {
+  return [range.start.line, range.end.line];
+}
+
+suite("styleFor", () => {
+  test("resolves language aliases", () => {
+    assert.strictEqual(styleFor("typescriptreact"), styleFor("typescript"));
+    assert.strictEqual(styleFor("plaintext"), undefined);
+  });
+});
+
+suite("extractComment", () => {
+  test("takes the block comment from a fenced reply and dedents it", () => {
+    const reply = "Here you go:\n```ts\n  /**\n   * Adds two numbers.\n   */\n  function add() {}\n```\n";
+    assert.deepStrictEqual(extractComment(reply, style("typescript")), [
+      "/**",
+      " * Adds two numbers.",
+      " */",
+    ]);
+  });
+
+  test("takes the run of line comments with the language's prefix", () => {
+    const reply = "/// Adds two numbers.\n/// Returns the sum.\nfn add() {}";
+    assert.deepStrictEqual(extractComment(reply, style("rust")), [
+      "/// Adds two numbers.",
+      "/// Returns the sum.",
+    ]);
+  });
+
+  test("takes a Python docstring, one line or several", () => {
+    assert.deepStrictEqual(extractComment('"""Add two numbers."""', style("python")), [
+      '"""Add two numbers."""',
+    ]);
+    assert.deepStrictEqual(
+      extractComment('```python\n"""Add two numbers.\n\nReturns:\n    The sum.\n"""\n```', style("python")),
+      ['"""Add two numbers.', "", "Returns:", "    The sum.", '"""']
+    );
+  });
+
+  test("is undefined when the reply is not a comment in the style", () => {
+    assert.strictEqual(extractComment("Adds two numbers.", style("typescript")), undefined);
+    assert.strictEqual(extractComment("# Adds two numbers.", style("go")), undefined);
+    assert.strictEqual(extractComment('"""Never closed', style("python")), undefined);
+    assert.strictEqual(extractComment("   \n", style("python")), undefined);
+  });
+});
+
+suite("placement", () => {
+  test("inserts above a symbol without a doc comment", () => {
+    const doc = docOf(["import x", "", "  function add() {", "  }"]);
+    const { range, indent } = placement(doc, new vscode.Range(2, 2, 3, 3), style("typescript"));
+    assert.deepStrictEqual(lines(range), [2, 2]);
+    assert.strictEqual(indent, "  ");
+  });
+
+  test("replaces the block comment above the symbol", () => {
+    const doc = docOf(["/**", " * Old.", " */", "function add() {", "}"]);
+    const { range } = placement(doc, new vscode.Range(3, 0, 4, 1), style("typescript"));
+    assert.deepStrictEqual(lines(range), [0, 3]);
+  });
+
+  test("replaces a comment the symbol's range starts with", () => {
+    const doc = docOf(["/// Old.", "/// Older.", "fn add() {}"]);
+    const { range } = placement(doc, new vscode.Range(0, 0, 2, 11), style("rust"));
+    assert.deepStrictEqual(lines(range), [0, 2]);
+  });
+
+  test("puts a Python docstring first in the body, after decorators and a multi-line signature", () => {
+    const doc = docOf(["@cache", "def add(", "    a, b", "):  # sum", "    return a + b"]);
+    const { range, indent } = placement(doc, new vscode.Range(0, 0, 4, 16), style("python"));
+    assert.deepStrictEqual(lines(range), [4, 4]);
+    assert.strictEqual(indent, "    ");
+  });
+
+  test("replaces an existing Python docstring", () => {
+    const doc = docOf([
+      "class Calc:",
+      "    def add(self, a, b):",
+      "",
+      '        """Old.',
+      "",
+      '        More."""',
+      "        return a + b",
+    ]);
+    const { range, indent } = placement(doc, new vscode.Range(1, 4, 6, 20), style("python"));
+    assert.deepStrictEqual(lines(range), [3, 6]);
+    assert.strictEqual(indent, "        ");
+  });
+
+  test("replaces a one-line Python docstring", () => {
+    const doc = docOf(["def add(a, b):", "    '''Old.'''", "    return a + b"]);
+    const { range } = placement(doc, new vscode.Range(0, 0, 2, 16), style("python"));
+    assert.deepStrictEqual(lines(range), [1, 2]);
+  });
+
+  test("refuses a one-line Python definition", () => {
+    const doc = docOf(["def add(a, b): return a + b"]);
+    assert.throws(
+      () => placement(doc, new vscode.Range(0, 0, 0, 27), style("python")),
+      /one-line definition/
+    );
+  });
+});
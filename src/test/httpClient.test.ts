@@ -0,0 +1,132 @@
+import * as assert from "assert";
+import * as http from "http";
+import * as net from "net";
+import type { AddressInfo } from "net";
+import type { EndpointProfile, HttpSettings } from "../config";
+import { fetchModelList } from "../modelList";
+
+/**
+ * Local stand-in for an OpenAI-compatible server; records each request's headers.
+ * Closes every connection so each request opens a new proxy tunnel.
+ */
+function startUpstream(seen: http.IncomingHttpHeaders[]): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    seen.push(req.headers);
+    res.writeHead(200, { "Content-Type": "application/json", Connection: "close" });
+    res.end(JSON.stringify({ data: [{ id: "test-model", context_length: 8192 }] }));
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+/** Minimal CONNECT proxy; records each tunnel target. */
+function startProxy(tunnels: string[]): Promise<http.Server> {
+  const server = http.createServer((_req, res) => res.writeHead(405).end());
+  server.on("connect", (req: http.IncomingMessage, client: net.Socket, head: Buffer) => {
+    tunnels.push(req.url ?? "");
+    const [host, port] = (req.url ?? "").split(":");
+    const upstream = net.connect(Number(port), host, () => {
+      client.write("HTTP/1.1 200 Connection Established\r\n\r\n");
+      upstream.write(head);
+      upstream.pipe(client);
+      client.pipe(upstream);
+    });
+    upstream.on("error", () => client.destroy());
+    client.on("error", () => upstream.destroy());
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+function urlOf(server: http.Server): string {
+  return `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+}
+
+function close(server: http.Server): Promise<void> {
+  server.closeAllConnections();
+  return new Promise((resolve) => server.close(() => resolve()));
+}
+
+suite("httpClient against a local server", () => {
+  const seen: http.IncomingHttpHeaders[] = [];
+  const tunnels: string[] = [];
+  let upstream: http.Server;
+  let proxy: http.Server;
+  const savedEnv = { ...process.env };
+
+  const endpoint = (overrides: Partial<EndpointProfile> = {}): EndpointProfile => ({
+    name: "default",
+    provider: "openai",
+    baseUrl: `${urlOf(upstream)}/v1`,
+    apiKey: "sk-test",
+    model: "test-model",
+    headers: {},
+    timeoutMs: 5000,
+    ...overrides,
+  });
+  const direct: HttpSettings = { proxy: "", noProxy: [], proxyStrictSSL: true, caBundlePath: "" };
+
+  suiteSetup(async () => {
+    upstream = await startUpstream(seen);
+    proxy = await startProxy(tunnels);
+  });
+
+  suiteTeardown(async () => {
+    await close(upstream);
+    await close(proxy);
+  });
+
+  setup(() => {
+    seen.length = 0;
+    tunnels.length = 0;
+    for (const name of ["HTTP_PROXY", "http_proxy", "HTTPS_PROXY", "https_proxy", "NO_PROXY", "no_proxy"]) {
+      delete process.env[name];
+    }
+  });
+
+  teardown(() => {
+    process.env = { ...savedEnv };
+  });
+
+  test("expands header templates and sends the bearer key by default", async () => {
+    process.env.SYMFOCUS_TEST_TEAM = "docs";
+    const models = await fetchModelList(
+      endpoint({ headers: { "X-Team": "${env:SYMFOCUS_TEST_TEAM}/${model}", "X-Empty": "${env:SYMFOCUS_UNSET}" } }),
+      direct
+    );
+    assert.deepStrictEqual(models, [{ id: "test-model", contextLength: 8192 }]);
+    assert.strictEqual(seen[0].authorization, "Bearer sk-test");
+    assert.strictEqual(seen[0]["x-team"], "docs/test-model");
+    assert.strictEqual(seen[0]["x-empty"], undefined);
+  });
+
+  test("uses the configured auth scheme", async () => {
+    await fetchModelList(endpoint({ authScheme: "api-key" }), direct);
+    await fetchModelList(endpoint({ authScheme: "none", headers: { "X-Key": "${apiKey}" } }), direct);
+    assert.strictEqual(seen[0]["api-key"], "sk-test");
+    assert.strictEqual(seen[0].authorization, undefined);
+    assert.strictEqual(seen[1].authorization, undefined);
+    assert.strictEqual(seen[1]["x-key"], "sk-test");
+  });
+
+  test("routes through http.proxy", async () => {
+    const models = await fetchModelList(endpoint(), { ...direct, proxy: urlOf(proxy) });
+    assert.strictEqual(models[0].id, "test-model");
+    assert.deepStrictEqual(tunnels, [new URL(urlOf(upstream)).host]);
+  });
+
+  test("routes through HTTP_PROXY unless NO_PROXY lists the host", async () => {
+    process.env.HTTP_PROXY = urlOf(proxy);
+    await fetchModelList(endpoint(), direct);
+    assert.strictEqual(tunnels.length, 1);
+
+    process.env.NO_PROXY = "localhost,127.0.0.1";
+    await fetchModelList(endpoint(), direct);
+    assert.strictEqual(tunnels.length, 1);
+    assert.strictEqual(seen.length, 2);
+  });
+
+  test("skips the proxy for http.noProxy hosts", async () => {
+    await fetchModelList(endpoint(), { ...direct, proxy: urlOf(proxy), noProxy: ["127.0.0.1"] });
+    assert.strictEqual(tunnels.length, 0);
+    assert.strictEqual(seen.length, 1);
+  });
+});
@@ -0,0 +1,71 @@
+import * as assert from "assert";
+import { unifiedDiff } from "../lineDiff";
+
+const numbered = (n: number) => Array.from({ length: n }, (_, i) => `line ${i + 1}`);
+
+suite("unifiedDiff", () => {
+  test("is empty when the lines are the same", () => {
+    assert.strictEqual(unifiedDiff("a\nb\n", "a\r\nb"), "");
+    assert.strictEqual(unifiedDiff("", ""), "");
+  });
+
+  test("shows a changed line with context", () => {
+    assert.strictEqual(
+      unifiedDiff("a\nb\nc\n", "a\nB\nc\n"),
+      ["@@ -1,3 +1,3 @@", " a", "-b", "+B", " c"].join("\n")
+    );
+  });
+
+  test("shows added and new files", () => {
+    assert.strictEqual(unifiedDiff("", "a\nb"), ["@@ -1,0 +1,2 @@", "+a", "+b"].join("\n"));
+    assert.strictEqual(
+      unifiedDiff("a\nc", "a\nb\nc"),
+      ["@@ -1,2 +1,3 @@", " a", "+b", " c"].join("\n")
+    );
+  });
+
+  test("keeps unchanged lines inside a change in place", () => {
+    assert.strictEqual(
+      unifiedDiff("a\nb\nc\nd", "x\nb\nc\ny"),
+      ["@@ -1,4 +1,4 @@", "-a", "+x", " b", " c", "-d", "+y"].join("\n")
+    );
+  });
+
+  test("splits distant changes into hunks with their own line numbers", () => {
+    const before = numbered(20);
+    const after = [...before];
+    after[1] = "changed 2";
+    after.splice(17, 1);
+    assert.strictEqual(
+      unifiedDiff(before.join("\n"), after.join("\n"), { context: 1 }),
+      [
+        "@@ -1,3 +1,3 @@",
+        " line 1",
+        "-line 2",
+        "+changed 2",
+        " line 3",
+        "@@ -17,3 +17,2 @@",
+        " line 17",
+        "-line 18",
+        " line 19",
+      ].join("\n")
+    );
+  });
+
+  test("merges changes separated by at most twice the context", () => {
+    const before = numbered(8);
+    const after = [...before];
+    after[1] = "x";
+    after[5] = "y";
+    const diff = unifiedDiff(before.join("\n"), after.join("\n"), { context: 2 });
+    assert.strictEqual(diff.split("\n").filter((l) => l.startsWith("@@")).length, 1);
+    assert.ok(diff.startsWith("@@ -1,8 +1,8 @@"), diff);
+  });
+
+  test("numbers hunks from the given start lines", () => {
+    assert.strictEqual(
+      unifiedDiff("a\nb", "a\nc", { beforeStart: 10, afterStart: 12 }),
+      ["@@ -10,2 +12,2 @@", " a", "-b", "+c"].join("\n")
+    );
+  });
+});
@@ -0,0 +1,103 @@
+import * as assert from "assert";
+import * as http from "http";
+import type { AddressInfo } from "net";
+import { streamOpenAIChat, type StreamResult } from "../llm";
+
+type Handler = (body: Record<string, unknown>, res: http.ServerResponse) => void;
+
+/** Local stand-in for a chat completions server; records each request body. */
+function startServer(bodies: Record<string, unknown>[], handler: Handler): Promise<http.Server> {
+  const server = http.createServer((req, res) => {
+    let raw = "";
+    req.on("data", (c: Buffer) => (raw += c.toString()));
+    req.on("end", () => {
+      const body = JSON.parse(raw) as Record<string, unknown>;
+      bodies.push(body);
+      handler(body, res);
+    });
+  });
+  return new Promise((resolve) => server.listen(0, "127.0.0.1", () => resolve(server)));
+}
+
+function sse(res: http.ServerResponse, events: unknown[]): void {
+  res.writeHead(200, { "Content-Type": "text/event-stream" });
+  for (const e of events) res.write(`data: ${JSON.stringify(e)}\n\n`);
+  res.end("data: [DONE]\n\n");
+}
+
+async function collect(stream: AsyncGenerator<StreamResult>): Promise<StreamResult[]> {
+  const out: StreamResult[] = [];
+  for await (const r of stream) out.push(r);
+  return out;
+}
+
+suite("streamOpenAIChat against a local server", () => {
+  let server: http.Server | undefined;
+
+  teardown(async () => {
+    server?.closeAllConnections();
+    await new Promise<void>((resolve) => (server ? server.close(() => resolve()) : resolve()));
+    server = undefined;
+  });
+
+  const baseUrl = () => `http://127.0.0.1:${(server!.address() as AddressInfo).port}/v1`;
+
+  test("reports finish_reason and usage", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    server = await startServer(bodies, (_body, res) =>
+      sse(res, [
+        { choices: [{ delta: { content: "Hello" }, finish_reason: null }] },
+        { choices: [{ delta: {}, finish_reason: "length" }] },
+        { choices: [], usage: { prompt_tokens: 5, completion_tokens: 1 } },
+      ])
+    );
+    const results = await collect(
+      streamOpenAIChat(baseUrl(), "sk-test", "m", [{ role: "user", content: "hi" }])
+    );
+    assert.deepStrictEqual(bodies[0].stream_options, { include_usage: true });
+    assert.deepStrictEqual(results, [
+      { type: "chunk", content: "Hello" },
+      { type: "usage", promptTokens: 5, completionTokens: 1 },
+      { type: "done", finishReason: "length" },
+    ]);
+  });
+
+  test("retries without stream_options when the server rejects it", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    server = await startServer(bodies, (body, res) => {
+      if (body.stream_options) {
+        res.writeHead(400, { "Content-Type": "application/json" });
+        res.end(JSON.stringify({ error: { message: "Unrecognized request argument supplied: stream_options" } }));
+        return;
+      }
+      sse(res, [{ choices: [{ delta: { content: "OK" }, finish_reason: "stop" }] }]);
+    });
+    const first = await collect(
+      streamOpenAIChat(baseUrl(), "", "m", [{ role: "user", content: "hi" }])
+    );
+    assert.deepStrictEqual(first, [
+      { type: "chunk", content: "OK" },
+      { type: "done", finishReason: "stop" },
+    ]);
+    await collect(streamOpenAIChat(baseUrl(), "", "m", [{ role: "user", content: "again" }]));
+    assert.deepStrictEqual(
+      bodies.map((b) => "stream_options" in b),
+      [true, false, false]
+    );
+  });
+
+  test("does not retry other 400 errors", async () => {
+    const bodies: Record<string, unknown>[] = [];
+    server = await startServer(bodies, (_body, res) => {
+      res.writeHead(400, { "Content-Type": "application/json" });
+      res.end(JSON.stringify({ error: { message: "model not found" } }));
+    });
+    const results = await collect(
+      streamOpenAIChat(baseUrl(), "", "m", [{ role: "user", content: "hi" }])
+    );
+    assert.strictEqual(bodies.length, 1);
+    assert.deepStrictEqual(results, [
+      { type: "error", message: "API error (400): model not found", status: 400 },
+    ]);
+  });
+});
@@ -0,0 +1,63 @@
+import * as assert from "assert";
+import { rewriteFileLinks } from "../markdown";
+
+type Call = { path: string; line: number; endLine?: number };
+
+/** Links every reference to `path#Lline`, except files under `private/`. */
+function rewrite(md: string, calls: Call[] = []): string {
+  return rewriteFileLinks(md, (path, line, endLine) => {
+    calls.push({ path, line, endLine });
+    return path.startsWith("private/") ? undefined : `${path}#L${line}`;
+  });
+}
+
+suite("rewriteFileLinks", () => {
+  test("rewrites the target of path:line links and keeps their text", () => {
+    assert.strictEqual(
+      rewrite("See [the parser](src/parser.ts:42)."),
+      "See [the parser](src/parser.ts#L42)."
+    );
+  });
+
+  test("unwraps bracketed path:line link text", () => {
+    assert.strictEqual(
+      rewrite("See [[src/parser.ts:42]](src/parser.ts:42)."),
+      "See [src/parser.ts:42](src/parser.ts#L42)."
+    );
+  });
+
+  test("links backticked and naked references", () => {
+    assert.strictEqual(
+      rewrite("In `src/a.ts:3` and src/b.ts:7."),
+      "In [`src/a.ts:3`](src/a.ts#L3) and [src/b.ts:7](src/b.ts#L7)."
+    );
+  });
+
+  test("passes line ranges and normalizes mistyped src paths", () => {
+    const calls: Call[] = [];
+    rewrite("Lines rc/a.ts:3-9 and src/b.ts:7:2.", calls);
+    assert.deepStrictEqual(calls, [
+      { path: "src/a.ts", line: 3, endLine: 9 },
+      { path: "src/b.ts", line: 7, endLine: undefined },
+    ]);
+  });
+
+  test("keeps only the text when the resolver declines", () => {
+    assert.strictEqual(
+      rewrite("See [secret](private/key.ts:1) and `private/key.ts:2`."),
+      "See secret and `private/key.ts:2`."
+    );
+  });
+
+  test("leaves other links, code spans and fenced code alone", () => {
+    const md = [
+      "[docs](https://example.com/a.ts:1) and `const x = 1`",
+      "```ts",
+      "// src/a.ts:3",
+      "```",
+    ].join("\n");
+    const calls: Call[] = [];
+    assert.strictEqual(rewrite(md, calls), md);
+    assert.deepStrictEqual(calls, []);
+  });
+});
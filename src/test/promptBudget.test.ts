@@ -0,0 +1,55 @@
+import * as assert from "assert";
+import { estimateTokens, truncateMiddle, truncateToTokens } from "../promptBudget";
+
+const lines = Array.from({ length: 100 }, (_, i) => `const value${i} = compute(${i});`);
+const marker = (from: number, to: number) => `// ... lines ${from + 1}-${to + 1} omitted ...`;
+
+suite("truncateToTokens", () => {
+  test("returns text that fits unchanged", () => {
+    assert.strictEqual(truncateToTokens("short text", 100), "short text");
+  });
+
+  test("returns an empty string without a budget", () => {
+    assert.strictEqual(truncateToTokens("some text", 0), "");
+  });
+
+  test("keeps whole lines of the prefix when it can", () => {
+    const text = lines.join("\n");
+    const out = truncateToTokens(text, 50);
+    assert.ok(estimateTokens(out) <= 50);
+    assert.ok(text.startsWith(out));
+    assert.ok(lines.includes(out.split("\n").pop() ?? ""), "ends on a full line");
+  });
+
+  test("cuts inside a line when there is no line break to cut at", () => {
+    const text = "x".repeat(1000);
+    const out = truncateToTokens(text, 10);
+    assert.strictEqual(out, "x".repeat(35));
+  });
+});
+
+suite("truncateMiddle", () => {
+  test("returns text that fits unchanged", () => {
+    const { text, omitted } = truncateMiddle(lines.slice(0, 3), 1000, marker);
+    assert.strictEqual(text, lines.slice(0, 3).join("\n"));
+    assert.strictEqual(omitted, undefined);
+  });
+
+  test("keeps the head and tail within budget and marks the omitted range", () => {
+    const { text, omitted } = truncateMiddle(lines, 200, marker);
+    assert.ok(omitted);
+    assert.ok(estimateTokens(text) <= 200, String(estimateTokens(text)));
+    const out = text.split("\n");
+    assert.deepStrictEqual(out.slice(0, omitted.from), lines.slice(0, omitted.from));
+    assert.strictEqual(out[omitted.from], marker(omitted.from, omitted.to));
+    assert.deepStrictEqual(out.slice(omitted.from + 1), lines.slice(omitted.to + 1));
+  });
+
+  test("gives the head about 70% of the budget", () => {
+    const { omitted } = truncateMiddle(lines, 200, marker);
+    assert.ok(omitted);
+    const head = omitted.from;
+    const tail = lines.length - 1 - omitted.to;
+    assert.ok(head > tail * 1.8 && head < tail * 3, `head ${head}, tail ${tail}`);
+  });
+});
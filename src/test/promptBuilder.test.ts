@@ -0,0 +1,36 @@
+import * as assert from "assert";
+import { BUILT_IN_USER_TEMPLATE, buildUserPrompt } from "../promptBuilder";
+
+const source = "function add(a, b) {\n\n\n  return a + b;\n}";
+
+suite("buildUserPrompt", () => {
+  test("renders the built-in prompt from BUILT_IN_USER_TEMPLATE", () => {
+    const options = {
+      line: 3,
+      column: 1,
+      detail: "(a: number, b: number) => number",
+      isDeprecated: true,
+      importBlock: "import { x } from './x';",
+      ideHover: "function add(a: number, b: number): number",
+      definitionLocation: { path: "src/math.ts", line: 3 },
+      referencesSummary: "Referenced in 2 places",
+      callerSnippets: [{ file: "src/app.ts", line: 9, snippet: "add(1, 2)" }],
+      projectContext: "billing service",
+    };
+    assert.strictEqual(
+      buildUserPrompt("src/math.ts", "add", "function", "typescript", source, options),
+      buildUserPrompt("src/math.ts", "add", "function", "typescript", source, {
+        ...options,
+        template: BUILT_IN_USER_TEMPLATE,
+      })
+    );
+  });
+
+  test("drops lines of empty fields without leaving double blank lines", () => {
+    const prompt = buildUserPrompt("src/math.ts", "add", "function", "typescript", source, { line: 3 });
+    assert.ok(!/^(Signature|Container|IDE hover|Defined in|Project context):|DEPRECATED/m.test(prompt), prompt);
+    const [, outsideSource] = prompt.split(source);
+    assert.ok(!/\n\n\n/.test(outsideSource), outsideSource);
+    assert.ok(prompt.includes(`\`\`\`typescript\n${source}\n\`\`\``), "keeps blank lines inside the source");
+  });
+});
@@ -0,0 +1,90 @@
+import * as assert from "assert";
+import { backoffMs, isRetryableStatus, parseRetryAfterMs } from "../retry";
+
+suite("isRetryableStatus", () => {
+  test("retries timeouts, rate limits and server errors", () => {
+    for (const status of [408, 429, 500, 502, 503, 529]) {
+      assert.strictEqual(isRetryableStatus(status), true, String(status));
+    }
+  });
+
+  test("does not retry other client errors", () => {
+    for (const status of [400, 401, 403, 404, 422]) {
+      assert.strictEqual(isRetryableStatus(status), false, String(status));
+    }
+  });
+});
+
+suite("parseRetryAfterMs", () => {
+  test("reads Retry-After seconds, including fractions", () => {
+    assert.strictEqual(parseRetryAfterMs(new Headers({ "retry-after": "4" })), 4000);
+    assert.strictEqual(parseRetryAfterMs(new Headers({ "retry-after": "1.5" })), 1500);
+  });
+
+  test("reads Retry-After as an HTTP date", () => {
+    const at = new Date(Date.now() + 10_000).toUTCString();
+    const ms = parseRetryAfterMs(new Headers({ "retry-after": at }));
+    assert.ok(ms !== undefined && ms > 8000 && ms <= 10_000, String(ms));
+  });
+
+  test("reads epoch seconds as an absolute reset time", () => {
+    const epoch = String(Math.floor(Date.now() / 1000) + 20);
+    const ms = parseRetryAfterMs(new Headers({ "retry-after": epoch }));
+    assert.ok(ms !== undefined && ms > 18_000 && ms <= 20_000, String(ms));
+  });
+
+  test("clamps times in the past to zero", () => {
+    const at = new Date(Date.now() - 60_000).toUTCString();
+    assert.strictEqual(parseRetryAfterMs(new Headers({ "retry-after": at })), 0);
+  });
+
+  test("takes the longest x-ratelimit-reset value, with Go-style durations", () => {
+    const headers = new Headers({
+      "x-ratelimit-reset-requests": "20ms",
+      "x-ratelimit-reset-tokens": "6m0s",
+    });
+    assert.strictEqual(parseRetryAfterMs(headers), 360_000);
+    assert.strictEqual(parseRetryAfterMs(new Headers({ "x-ratelimit-reset": "1h2m3.5s" })), 3_723_500);
+  });
+
+  test("prefers Retry-After over the rate limit headers", () => {
+    const headers = new Headers({ "retry-after": "2", "x-ratelimit-reset-tokens": "30s" });
+    assert.strictEqual(parseRetryAfterMs(headers), 2000);
+  });
+
+  test("falls back to the rate limit headers when Retry-After is unparseable", () => {
+    const headers = new Headers({ "retry-after": "soon", "x-ratelimit-reset-tokens": "3s" });
+    assert.strictEqual(parseRetryAfterMs(headers), 3000);
+  });
+
+  test("is undefined without a usable hint", () => {
+    assert.strictEqual(parseRetryAfterMs(new Headers()), undefined);
+    assert.strictEqual(parseRetryAfterMs(new Headers({ "x-ratelimit-reset-tokens": "later" })), undefined);
+  });
+});
+
+suite("backoffMs", () => {
+  const random = Math.random;
+
+  teardown(() => {
+    Math.random = random;
+  });
+
+  test("doubles per attempt, with half of the delay random", () => {
+    Math.random = () => 0;
+    assert.deepStrictEqual([1, 2, 3, 4].map(backoffMs), [500, 1000, 2000, 4000]);
+    Math.random = () => 0.999;
+    for (const attempt of [1, 2, 3, 4]) {
+      const full = 1000 * 2 ** (attempt - 1);
+      const ms = backoffMs(attempt);
+      assert.ok(ms > full / 2 && ms < full, `${attempt}: ${ms}`);
+    }
+  });
+
+  test("caps the delay at 30 seconds", () => {
+    Math.random = () => 0.999;
+    assert.ok(backoffMs(20) < 30_000);
+    Math.random = () => 0;
+    assert.strictEqual(backoffMs(20), 15_000);
+  });
+});
@@ -0,0 +1,150 @@
+import * as vscode from "vscode";
+
+/** USD per 1M tokens, keyed by model name in `symfocus.usage.prices`. */
+type ModelPrice = { input: number; output: number };
+
+export type UsageEntry = {
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  /** Undefined when the model has no entry in the price table. */
+  cost?: number;
+};
+
+type UsageTotals = {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  cost: number;
+  /** Requests whose model had no price; their cost is missing from `cost`. */
+  unpriced: number;
+};
+
+const DAILY_KEY = "symfocus.usage.daily";
+const KEEP_DAYS = 90;
+
+const sessionTotals: UsageTotals = emptyTotals();
+
+function emptyTotals(): UsageTotals {
+  return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0, unpriced: 0 };
+}
+
+function addTo(totals: UsageTotals, entry: UsageEntry): void {
+  totals.requests++;
+  totals.promptTokens += entry.promptTokens;
+  totals.completionTokens += entry.completionTokens;
+  if (entry.cost != null) totals.cost += entry.cost;
+  else totals.unpriced++;
+}
+
+/** Local calendar day, so totals roll over at the user's midnight. */
+function dayKey(d = new Date()): string {
+  const pad = (n: number) => String(n).padStart(2, "0");
+  return `${d.getFullYear()}-${pad(d.getMonth() + 1)}-${pad(d.getDate())}`;
+}
+
+/**
+ * Looks up the model in the price table: exact name first, then the longest key
+ * that prefixes the model (so "gpt-4o" prices "gpt-4o-2024-08-06").
+ */
+function findPrice(model: string): ModelPrice | undefined {
+  const prices =
+    vscode.workspace
+      .getConfiguration()
+      .get<Record<string, ModelPrice>>("symfocus.usage.prices") ?? {};
+  if (prices[model]) return prices[model];
+  let best: string | undefined;
+  for (const key of Object.keys(prices)) {
+    if (model.startsWith(key) && (best === undefined || key.length > best.length)) {
+      best = key;
+    }
+  }
+  return best !== undefined ? prices[best] : undefined;
+}
+
+export function estimateCost(
+  model: string,
+  promptTokens: number,
+  completionTokens: number
+): number | undefined {
+  const price = findPrice(model);
+  if (!price) return undefined;
+  return (
+    (promptTokens / 1_000_000) * (price.input ?? 0) +
+    (completionTokens / 1_000_000) * (price.output ?? 0)
+  );
+}
+
+function formatCost(cost: number): string {
+  return cost < 0.01 ? `$${cost.toFixed(4)}` : `$${cost.toFixed(2)}`;
+}
+
+/** One-line summary for the panel, e.g. "1,204 in · 388 out · $0.0004". */
+export function formatUsage(entry: UsageEntry): string {
+  const parts = [
+    `${entry.promptTokens.toLocaleString()} in`,
+    `${entry.completionTokens.toLocaleString()} out`,
+  ];
+  if (entry.cost != null) parts.push(formatCost(entry.cost));
+  return parts.join(" · ");
+}
+
+function formatTotals(label: string, t: UsageTotals): string {
+  const cost =
+    t.unpriced > 0 && t.cost === 0
+      ? "cost unknown"
+      : formatCost(t.cost) + (t.unpriced > 0 ? ` (+${t.unpriced} unpriced)` : "");
+  return `${label}: ${t.requests} requests, ${t.promptTokens.toLocaleString()} in / ${t.completionTokens.toLocaleString()} out tokens, ${cost}`;
+}
+
+/** Adds one explanation to the session totals and to today's totals in globalState. */
+export async function recordUsage(
+  state: vscode.Memento,
+  entry: UsageEntry
+): Promise<void> {
+  addTo(sessionTotals, entry);
+
+  const daily = { ...state.get<Record<string, UsageTotals>>(DAILY_KEY, {}) };
+  const today = dayKey();
+  const totals = { ...(daily[today] ?? emptyTotals()) };
+  addTo(totals, entry);
+  daily[today] = totals;
+
+  const days = Object.keys(daily).sort();
+  for (const old of days.slice(0, Math.max(0, days.length - KEEP_DAYS))) {
+    delete daily[old];
+  }
+  await state.update(DAILY_KEY, daily);
+}
+
+export function registerUsageCommand(context: vscode.ExtensionContext): void {
+  context.subscriptions.push(
+    vscode.commands.registerCommand("symfocus.showUsage", async () => {
+      const daily = context.globalState.get<Record<string, UsageTotals>>(DAILY_KEY, {});
+      const days = Object.keys(daily).sort().reverse();
+      const lines = [formatTotals("This session", sessionTotals)];
+      if (days.length === 0) {
+        lines.push("No usage recorded yet.");
+      } else {
+        for (const day of days.slice(0, 14)) {
+          lines.push(formatTotals(day === dayKey() ? `${day} (today)` : day, daily[day]));
+        }
+      }
+      const action = await vscode.window.showInformationMessage(
+        "Symfocus token usage",
+        { modal: true, detail: lines.join("\n") },
+        "Edit Prices",
+        "Reset"
+      );
+      if (action === "Edit Prices") {
+        void vscode.commands.executeCommand(
+          "workbench.action.openSettings",
+          "symfocus.usage.prices"
+        );
+      } else if (action === "Reset") {
+        Object.assign(sessionTotals, emptyTotals());
+        await context.globalState.update(DAILY_KEY, undefined);
+      }
+    })
+  );
+}
@@ -37,6 +37,14 @@ const Icons = {
   check: `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" aria-hidden="true">
     <polyline points="20 6 9 17 4 12"/>
   </svg>`,
+
+  chevronLeft: `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
+    <polyline points="15 18 9 12 15 6"/>
+  </svg>`,
+
+  chevronRight: `<svg width="14" height="14" viewBox="0 0 24 24" fill="none" stroke="currentColor" stroke-width="2" stroke-linecap="round" stroke-linejoin="round" aria-hidden="true">
+    <polyline points="9 18 15 12 9 6"/>
+  </svg>`,
 };
 
 function Badge({ text, state = "idle" }: BadgeProps): string {
@@ -106,7 +114,10 @@ export function HeroSection({
         <p class="subtitle" id="hero-subtitle">${subtitle ?? defaultSubtitle}</p>
       </div>
       <div class="hero-status">
-        ${Badge({ text: badgeText, state: badgeState })}
+        <div class="hero-status-row">
+          ${HistoryNav()}
+          ${Badge({ text: badgeText, state: badgeState })}
+        </div>
         <div class="status-text" id="status-text">${statusText}</div>
         <div class="status-detail hidden" id="status-detail"></div>
       </div>
@@ -114,6 +125,17 @@ export function HeroSection({
   `;
 }
 
+function HistoryNav(): string {
+  return `
+    <div class="history-nav" role="group" aria-label="Explanation history">
+      <button id="history-back" class="history-button" type="button" disabled
+        title="Previous explanation (Alt+Left)" aria-label="Previous explanation">${Icons.chevronLeft}</button>
+      <button id="history-forward" class="history-button" type="button" disabled
+        title="Next explanation (Alt+Right)" aria-label="Next explanation">${Icons.chevronRight}</button>
+    </div>
+  `;
+}
+
 export function SymbolInfoCard(): string {
   return `
     <div id="symbol-info" class="symbol-bar hidden">
@@ -121,21 +143,42 @@ export function SymbolInfoCard(): string {
       <span id="info-symbol-location" class="symbol-bar-path">—</span>
       <span class="symbol-bar-sep">·</span>
       <span class="info-muted" id="info-symbol-linecol">—</span>
+      <span class="symbol-bar-sep hidden" id="info-settings-sep">·</span>
+      <span class="info-muted hidden" id="info-settings"></span>
+      <span class="symbol-bar-sep hidden" id="info-profile-sep">·</span>
+      <span class="info-muted hidden" id="info-profile"></span>
     </div>
   `;
 }
 
-export function Placeholder(): string {
+export function Placeholder(needsSetup = false): string {
   return `
     <div id="placeholder" class="placeholder">
       <p>Select a symbol, press ${Kbd("Ctrl")}+${Kbd("Alt")}+${Kbd("E")} to explain.</p>
+      <p id="setup-note" class="placeholder-hint${needsSetup ? "" : " hidden"}">
+        No endpoint configured yet.
+        <button id="configure-btn" class="link-button" type="button">Configure Symfocus…</button>
+      </p>
     </div>
   `;
 }
 
+export function ReasoningBlock(): string {
+  return `
+    <details id="reasoning" class="reasoning hidden">
+      <summary id="reasoning-summary">Thinking…</summary>
+      <div id="reasoning-content" class="reasoning-content"></div>
+    </details>
+  `;
+}
+
 export function CopyRow(): string {
   return `
     <div id="copy-row" class="copy-row hidden">
+      <span id="cache-note" class="cache-note hidden">
+        <span id="cache-note-text">cached</span> ·
+        <button id="regenerate-btn" class="link-button" type="button">regenerate</button>
+      </span>
       ${IconButton({
         id: "copy-btn",
         label: "Copy full explanation to clipboard",
@@ -146,3 +189,17 @@ export function CopyRow(): string {
     </div>
   `;
 }
+
+export function FollowUp(): string {
+  return `
+    <div id="followup" class="followup hidden">
+      <div id="thread" class="thread"></div>
+      <form id="followup-form" class="followup-form">
+        <textarea id="followup-input" class="followup-input" rows="2"
+          placeholder="Ask a follow-up question… (Enter to send, Shift+Enter for a new line)"
+          aria-label="Follow-up question"></textarea>
+        <button id="followup-send" class="primary-button" type="submit">Ask</button>
+      </form>
+    </div>
+  `;
+}
@@ -12,12 +12,31 @@ export function getScript(): string {
   var infoKind = document.getElementById('info-symbol-kind');
   var infoLocation = document.getElementById('info-symbol-location');
   var infoLineCol = document.getElementById('info-symbol-linecol');
+  var infoProfile = document.getElementById('info-profile');
+  var infoProfileSep = document.getElementById('info-profile-sep');
+  var infoSettings = document.getElementById('info-settings');
+  var infoSettingsSep = document.getElementById('info-settings-sep');
   var statusDetail = document.getElementById('status-detail');
   var symbolSignature = document.getElementById('symbol-signature');
   var body = document.body;
   var heroTitle = document.getElementById('hero-title');
   var heroSubtitle = document.getElementById('hero-subtitle');
   var srAnnounce = document.getElementById('sr-announce');
+  var cacheNote = document.getElementById('cache-note');
+  var cacheNoteText = document.getElementById('cache-note-text');
+  var regenerateBtn = document.getElementById('regenerate-btn');
+  var setupNote = document.getElementById('setup-note');
+  var configureBtn = document.getElementById('configure-btn');
+  var reasoningBlock = document.getElementById('reasoning');
+  var reasoningSummary = document.getElementById('reasoning-summary');
+  var reasoningContent = document.getElementById('reasoning-content');
+  var followUp = document.getElementById('followup');
+  var threadEl = document.getElementById('thread');
+  var followUpForm = document.getElementById('followup-form');
+  var followUpInput = document.getElementById('followup-input');
+  var followUpSend = document.getElementById('followup-send');
+  var historyBack = document.getElementById('history-back');
+  var historyForward = document.getElementById('history-forward');
 
   var IDLE_TITLE = 'Symbol Explanation';
   var IDLE_SUBTITLE = 'Select a symbol and press Ctrl+Alt+E';
@@ -175,6 +194,148 @@ export function getScript(): string {
     }
   }
 
+  function setProfile(name, model) {
+    if (!infoProfile) return;
+    if (name) {
+      infoProfile.textContent = model ? name + ' (' + model + ')' : name;
+      infoProfile.title = 'Answered by profile ' + name;
+      show(infoProfile);
+      show(infoProfileSep);
+    } else {
+      infoProfile.textContent = '';
+      hide(infoProfile);
+      hide(infoProfileSep);
+    }
+  }
+
+  function setEffective(d) {
+    if (!infoSettings) return;
+    if (!d) {
+      infoSettings.textContent = '';
+      hide(infoSettings);
+      hide(infoSettingsSep);
+      return;
+    }
+    var overrides = d.overrides || [];
+    infoSettings.textContent = d.mode + ' · ' + d.level + ' · ' + d.model + (overrides.length ? ' *' : '');
+    infoSettings.title = overrides.length
+      ? 'Overridden for this file:\\n' + overrides.join('\\n')
+      : 'Mode, experience level and model in effect';
+    show(infoSettings);
+    show(infoSettingsSep);
+  }
+
+  function formatAge(ts) {
+    var secs = Math.max(0, Math.round((Date.now() - ts) / 1000));
+    if (secs < 60) return 'just now';
+    var mins = Math.round(secs / 60);
+    if (mins < 60) return mins + 'm ago';
+    var hours = Math.round(mins / 60);
+    if (hours < 48) return hours + 'h ago';
+    return Math.round(hours / 24) + 'd ago';
+  }
+
+  function setCached(createdAt, model) {
+    if (!cacheNote) return;
+    if (createdAt) {
+      if (cacheNoteText) cacheNoteText.textContent = 'cached ' + formatAge(createdAt);
+      cacheNote.title = model ? 'Generated by ' + model : '';
+      show(cacheNote);
+    } else {
+      hide(cacheNote);
+    }
+  }
+
+  if (configureBtn) {
+    configureBtn.addEventListener('click', function() {
+      vsCodeApi.postMessage({ type: 'configure' });
+    });
+  }
+
+  if (regenerateBtn) {
+    regenerateBtn.addEventListener('click', function() {
+      setCached(0);
+      vsCodeApi.postMessage({ type: 'regenerate' });
+    });
+  }
+
+  function resetReasoning() {
+    hide(reasoningBlock);
+    if (reasoningBlock) reasoningBlock.open = false;
+    if (reasoningSummary) reasoningSummary.textContent = 'Thinking…';
+    if (reasoningContent) reasoningContent.textContent = '';
+  }
+
+  function setReasoning(text, done) {
+    if (!reasoningBlock) return;
+    show(reasoningBlock);
+    if (reasoningSummary) reasoningSummary.textContent = done ? 'Reasoning' : 'Thinking…';
+    if (reasoningContent) {
+      var atBottom = reasoningContent.scrollTop + reasoningContent.clientHeight >= reasoningContent.scrollHeight - 4;
+      reasoningContent.textContent = text || '';
+      if (atBottom) reasoningContent.scrollTop = reasoningContent.scrollHeight;
+    }
+  }
+
+  var currentAnswer = null;
+  var followUpBusy = false;
+
+  function setFollowUpBusy(busy) {
+    followUpBusy = busy;
+    if (followUpInput) followUpInput.disabled = busy;
+    if (followUpSend) followUpSend.disabled = busy;
+  }
+
+  function resetThread() {
+    hide(followUp);
+    if (threadEl) threadEl.innerHTML = '';
+    currentAnswer = null;
+    setFollowUpBusy(false);
+  }
+
+  function askFollowUp() {
+    if (!followUpInput || !threadEl || followUpBusy) return;
+    var question = followUpInput.value.trim();
+    if (!question) return;
+    var q = document.createElement('div');
+    q.className = 'thread-question';
+    q.textContent = question;
+    currentAnswer = document.createElement('div');
+    currentAnswer.className = 'explanation thread-answer pending';
+    currentAnswer.textContent = 'Thinking…';
+    threadEl.appendChild(q);
+    threadEl.appendChild(currentAnswer);
+    followUpInput.value = '';
+    setFollowUpBusy(true);
+    q.scrollIntoView({ block: 'start', behavior: 'smooth' });
+    vsCodeApi.postMessage({ type: 'followUp', question: question });
+  }
+
+  if (followUpForm) {
+    followUpForm.addEventListener('submit', function(ev) {
+      ev.preventDefault();
+      askFollowUp();
+    });
+  }
+
+  if (followUpInput) {
+    followUpInput.addEventListener('keydown', function(ev) {
+      if (ev.key === 'Enter' && !ev.shiftKey && !ev.isComposing) {
+        ev.preventDefault();
+        askFollowUp();
+      }
+    });
+  }
+
+  function navigateHistory(direction) {
+    var btn = direction < 0 ? historyBack : historyForward;
+    if (btn && btn.disabled) return;
+    vsCodeApi.postMessage({ type: 'history', direction: direction });
+  }
+
+  if (historyBack) historyBack.addEventListener('click', function() { navigateHistory(-1); });
+  if (historyForward) historyForward.addEventListener('click', function() { navigateHistory(1); });
+
   function setReportActive(active) {
     if (!body) return;
     body.classList.toggle('report-active', !!active);
@@ -257,95 +418,102 @@ export function getScript(): string {
     });
   }
 
-  if (content) {
-    content.addEventListener('click', function(ev) {
-      var copyBtnEl = ev.target && ev.target.closest ? ev.target.closest('.pre-copy') : null;
-      if (copyBtnEl) {
-        var wrap = copyBtnEl.parentElement.parentElement;
-        var pre = wrap ? wrap.querySelector('pre') : null;
-        var text = pre ? pre.textContent : '';
-        if (navigator.clipboard && navigator.clipboard.writeText && text) {
-          navigator.clipboard.writeText(text).then(function() {
-            var prev = copyBtnEl.textContent;
-            copyBtnEl.textContent = 'Copied!';
-            copyBtnEl.setAttribute('data-copied', 'true');
-            announce('Code copied to clipboard');
-            setTimeout(function() {
-              copyBtnEl.textContent = prev;
-              copyBtnEl.removeAttribute('data-copied');
-            }, 1500);
-          });
-        }
-        ev.preventDefault();
-        return;
-      }
-      
-      var a = ev.target && ev.target.closest ? ev.target.closest('a') : null;
-      if (!a || !a.href) return;
-      
-      var h = a.getAttribute('href') || '';
-      
-      if (a.hasAttribute('data-dw-path')) {
-        ev.preventDefault();
-        var p = a.getAttribute('data-dw-path') || '';
-        var ln = a.getAttribute('data-dw-line');
-        var cl = a.getAttribute('data-dw-col');
-        var lnEnd = a.hasAttribute('data-dw-line-end')
-          ? parseInt(a.getAttribute('data-dw-line-end'), 10)
-          : undefined;
-        vsCodeApi.postMessage({
-          type: 'openFile',
-          path: p,
-          line: ln ? parseInt(ln, 10) : undefined,
-          col: cl ? parseInt(cl, 10) : undefined,
-          endLine: lnEnd
+  function onExplanationClick(ev) {
+    var copyBtnEl = ev.target && ev.target.closest ? ev.target.closest('.pre-copy') : null;
+    if (copyBtnEl) {
+      var wrap = copyBtnEl.parentElement.parentElement;
+      var pre = wrap ? wrap.querySelector('pre') : null;
+      var text = pre ? pre.textContent : '';
+      if (navigator.clipboard && navigator.clipboard.writeText && text) {
+        navigator.clipboard.writeText(text).then(function() {
+          var prev = copyBtnEl.textContent;
+          copyBtnEl.textContent = 'Copied!';
+          copyBtnEl.setAttribute('data-copied', 'true');
+          announce('Code copied to clipboard');
+          setTimeout(function() {
+            copyBtnEl.textContent = prev;
+            copyBtnEl.removeAttribute('data-copied');
+          }, 1500);
         });
-        return;
       }
+      ev.preventDefault();
+      return;
+    }
+    
+    var a = ev.target && ev.target.closest ? ev.target.closest('a') : null;
+    if (!a || !a.href) return;
+    
+    var h = a.getAttribute('href') || '';
+    
+    if (a.hasAttribute('data-dw-path')) {
+      ev.preventDefault();
+      var p = a.getAttribute('data-dw-path') || '';
+      var ln = a.getAttribute('data-dw-line');
+      var cl = a.getAttribute('data-dw-col');
+      var lnEnd = a.hasAttribute('data-dw-line-end')
+        ? parseInt(a.getAttribute('data-dw-line-end'), 10)
+        : undefined;
+      vsCodeApi.postMessage({
+        type: 'openFile',
+        path: p,
+        line: ln ? parseInt(ln, 10) : undefined,
+        col: cl ? parseInt(cl, 10) : undefined,
+        endLine: lnEnd
+      });
+      return;
+    }
 
-      if (a.hasAttribute('data-dw-symbol')) {
-        ev.preventDefault();
-        var sym = a.getAttribute('data-dw-symbol') || '';
-        if (sym) vsCodeApi.postMessage({ type: 'goToSymbol', symbol: sym });
-        return;
-      }
+    if (a.hasAttribute('data-dw-symbol')) {
+      ev.preventDefault();
+      var sym = a.getAttribute('data-dw-symbol') || '';
+      if (sym) vsCodeApi.postMessage({ type: 'goToSymbol', symbol: sym });
+      return;
+    }
 
-      if (h.charAt(0) === '#') {
-        ev.preventDefault();
-        var id = h.slice(1).split('?')[0];
-        var el = id ? document.getElementById(id) : null;
-        if (el) {
-          el.scrollIntoView({ block: 'start', behavior: 'smooth' });
-        } else if (id) {
-          var sym = (a.textContent || '').trim();
-          if (sym) vsCodeApi.postMessage({ type: 'goToSymbol', symbol: sym });
-        }
-        return;
+    if (h.charAt(0) === '#') {
+      ev.preventDefault();
+      var id = h.slice(1).split('?')[0];
+      var el = id ? document.getElementById(id) : null;
+      if (el) {
+        el.scrollIntoView({ block: 'start', behavior: 'smooth' });
+      } else if (id) {
+        var sym = (a.textContent || '').trim();
+        if (sym) vsCodeApi.postMessage({ type: 'goToSymbol', symbol: sym });
       }
-      
-      if (h.indexOf('command:symfocus.openFile?') === 0) {
-        ev.preventDefault();
-        var q = h.split('?')[1];
-        if (q) {
-          try {
-            var arr = JSON.parse(decodeURIComponent(q));
-            vsCodeApi.postMessage({
-              type: 'openFile',
-              path: arr[0],
-              line: arr[1],
-              col: arr[2],
-              endLine: arr[3]
-            });
-          } catch (e) {}
-        }
+      return;
+    }
+    
+    if (h.indexOf('command:symfocus.openFile?') === 0) {
+      ev.preventDefault();
+      var q = h.split('?')[1];
+      if (q) {
+        try {
+          var arr = JSON.parse(decodeURIComponent(q));
+          vsCodeApi.postMessage({
+            type: 'openFile',
+            path: arr[0],
+            line: arr[1],
+            col: arr[2],
+            endLine: arr[3]
+          });
+        } catch (e) {}
       }
-    });
+    }
   }
 
+  if (content) content.addEventListener('click', onExplanationClick);
+  if (threadEl) threadEl.addEventListener('click', onExplanationClick);
+
   document.addEventListener('keydown', function(ev) {
     var tag = ev.target && ev.target.tagName;
     if (tag === 'INPUT' || tag === 'TEXTAREA') return;
 
+    if (ev.altKey && (ev.key === 'ArrowLeft' || ev.key === 'ArrowRight')) {
+      navigateHistory(ev.key === 'ArrowLeft' ? -1 : 1);
+      ev.preventDefault();
+      return;
+    }
+
     var headings = content ? content.querySelectorAll('h2, h3, h4') : [];
     var currentIndex = -1;
     if (content && headings.length > 0) {
@@ -393,6 +561,11 @@ export function getScript(): string {
         hideContent();
         if (infoCard) infoCard.classList.add('hidden');
         if (symbolSignature) symbolSignature.classList.add('hidden');
+        resetReasoning();
+        resetThread();
+        setProfile('');
+        setEffective(null);
+        setCached(0);
         setStatus('Analyzing symbol...', 'Working');
         setBadgeState('working');
         setStatusDetail('');
@@ -501,6 +674,57 @@ export function getScript(): string {
       case 'status':
         setStatus(d.status || '', d.badge);
         break;
+
+      case 'usage':
+        setStatusDetail(d.text || '');
+        break;
+
+      case 'cached':
+        setCached(d.createdAt, d.model);
+        break;
+
+      case 'setup':
+        if (setupNote) setupNote.classList.toggle('hidden', !d.needed);
+        break;
+
+      case 'profile':
+        setProfile(d.name, d.model);
+        break;
+
+      case 'effective':
+        setEffective(d);
+        break;
+
+      case 'reasoning':
+        setReasoning(d.text, d.done);
+        break;
+
+      case 'historyNav':
+        if (historyBack) historyBack.disabled = !d.canBack;
+        if (historyForward) historyForward.disabled = !d.canForward;
+        break;
+
+      case 'followUpReady':
+        show(followUp);
+        break;
+
+      case 'followUpShow':
+        if (currentAnswer) {
+          currentAnswer.classList.remove('pending');
+          currentAnswer.innerHTML = d.html;
+          addCodeBlockCopyButtons(currentAnswer);
+        }
+        break;
+
+      case 'followUpDone':
+        if (currentAnswer && d.error) {
+          currentAnswer.classList.remove('pending');
+          currentAnswer.innerHTML = '<div class="error" role="alert">' + esc(d.error) + '</div>';
+        }
+        currentAnswer = null;
+        setFollowUpBusy(false);
+        if (followUpInput) followUpInput.focus();
+        break;
     }
   });
 })();
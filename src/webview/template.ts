@@ -4,14 +4,16 @@ import {
   SymbolInfoCard,
   Placeholder,
   LoadingState,
+  ReasoningBlock,
   CopyRow,
+  FollowUp,
 } from "./components";
 
 export interface WebviewUris {
   cssUri: string;
 }
 
-export function getHtml(cspSource: string, uris: WebviewUris): string {
+export function getHtml(cspSource: string, uris: WebviewUris, needsSetup = false): string {
   const csp = `default-src 'none'; script-src 'unsafe-inline' ${cspSource}; style-src ${cspSource};`;
 
   return `<!DOCTYPE html>
@@ -32,10 +34,12 @@ export function getHtml(cspSource: string, uris: WebviewUris): string {
     <section class="content-shell">
       ${SymbolInfoCard()}
       <div id="symbol-signature" class="symbol-signature hidden"></div>
-      ${Placeholder()}
+      ${Placeholder(needsSetup)}
       ${LoadingState()}
+      ${ReasoningBlock()}
       ${CopyRow()}
       <div id="content" class="explanation hidden"></div>
+      ${FollowUp()}
     </section>
   </div>
   <script>${getScript()}</script>